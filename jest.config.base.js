@@ -0,0 +1,20 @@
+/**
+ * Shared by the packages' jest configs. Tests are TypeScript compiled by swc,
+ * and packages import each other's sources like tsconfig.base.json's paths do.
+ */
+export default {
+  testEnvironment: "node",
+  testMatch: ["<rootDir>/test/**/*.test.ts"],
+  transform: {
+    "^.+\\.ts$": [
+      "@swc/jest",
+      {
+        jsc: { parser: { syntax: "typescript" }, target: "es2022" },
+        module: { type: "commonjs" },
+      },
+    ],
+  },
+  moduleNameMapper: {
+    "^@fraimwork/(.*)$": "<rootDir>/../$1/src/index.ts",
+  },
+};
@@ -0,0 +1,516 @@
+import { EventEmitter } from "node:events";
+import * as fs from "fs";
+import * as process from "node:process";
+import {
+  AbortError,
+  estimateTokenizer,
+  LLMService,
+  Message,
+  parseJsonLenient,
+  PartialJsonParser,
+  readPartData,
+  readServerSentEvents,
+  StreamablePromise,
+  Tool,
+  ToolCall,
+  toolError,
+  ToolMessage,
+} from "@fraimwork/core";
+import type {
+  ContentPart,
+  Tokenizer,
+  ToolCallDialect,
+  Usage,
+} from "@fraimwork/core";
+
+export interface AnthropicServiceConfig {
+  // defaults to the ANTHROPIC_API_KEY environment variable
+  apiKey?: string;
+  baseURL?: string;
+  // sent with every request, e.g. anthropic-beta
+  headers?: Record<string, string>;
+  // tokens the model may spend thinking before it answers, thinking is off when unset
+  thinkingBudget?: number;
+  // cache the tools, system prompt and conversation between requests, on by default
+  promptCaching?: boolean;
+  // the Messages API requires a limit, used when the request doesn't set one
+  defaultMaxTokens?: number;
+}
+
+/**
+ * An error response from the Anthropic API
+ */
+export class AnthropicError extends Error {
+  public override readonly name = "AnthropicError";
+
+  constructor(
+    message: string,
+    // HTTP status, undefined for errors reported in the middle of a stream
+    public readonly status?: number,
+    // e.g. overloaded_error, rate_limit_error, invalid_request_error
+    public readonly type?: string,
+    public readonly headers?: Headers,
+  ) {
+    super(message);
+  }
+}
+
+// the Messages API is loosely typed here, the package doesn't depend on Anthropic's SDK
+type ContentBlock = { type: string; [key: string]: any };
+type AnthropicMessage = { role: "user" | "assistant"; content: ContentBlock[] };
+type AnthropicUsage = {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+};
+
+const API_VERSION = "2023-06-01";
+const CACHE_BREAKPOINT = { type: "ephemeral" };
+
+/**
+ * LLMService for Anthropic's Messages API
+ */
+export class AnthropicService extends LLMService {
+  protected config: AnthropicServiceConfig;
+
+  constructor(config: AnthropicServiceConfig = {}) {
+    super();
+    this.config = {
+      baseURL: "https://api.anthropic.com",
+      promptCaching: true,
+      defaultMaxTokens: 8192,
+      ...config,
+      apiKey: config.apiKey ?? process.env.ANTHROPIC_API_KEY,
+    };
+  }
+
+  _send(params: {
+    model: string;
+    messages: Message[];
+    tools?: Tool[];
+    temperature?: number;
+    maxTokens?: number;
+    parseToolCalls?: boolean;
+    toolCallDialect?: ToolCallDialect;
+    streaming?: boolean;
+    tokenizer?: Tokenizer;
+    signal?: AbortSignal;
+  }): StreamablePromise<Message> {
+    const { signal, tokenizer = estimateTokenizer } = params;
+    const body = this.createRequestBody(params);
+
+    this.logger.debug("Sending request", {
+      model: params.model,
+      contextTokens: tokenizer.count(
+        params.messages.map((message) => message.content).join("\n"),
+      ),
+    });
+
+    const streamablePromise = new StreamablePromise<Message>(
+      (resolve, reject) => {
+        const fail = (error: any) =>
+          reject(signal?.aborted ? new AbortError() : error);
+
+        if (!params.streaming) {
+          this.request(body, signal)
+            .then((response) => response.json())
+            .then((reply: any) => {
+              const message = convertReply(reply.content, reply.usage);
+              resolve(
+                this.processMessageToolCalls(
+                  message,
+                  params.parseToolCalls ?? false,
+                  params.toolCallDialect,
+                ),
+              );
+            })
+            .catch(fail);
+          return;
+        }
+
+        this.handleStreamingRequest(
+          body,
+          params.parseToolCalls ?? false,
+          params.toolCallDialect,
+          signal,
+        )
+          .then((emitter) => {
+            // Forward events from the internal emitter to the StreamablePromise
+            for (const event of [
+              "chunk",
+              "reasoning",
+              "toolCallStart",
+              "toolCallArgsDelta",
+              "toolCall",
+            ]) {
+              emitter.on(event, (...args) =>
+                streamablePromise.emit(event, ...args),
+              );
+            }
+            emitter.on("error", (error: any) => {
+              const reason = signal?.aborted ? new AbortError() : error;
+              streamablePromise.emit("error", reason);
+              reject(reason);
+            });
+            emitter.on("complete", (message) => {
+              streamablePromise.emit("complete", message);
+              resolve(message);
+            });
+          })
+          .catch(fail);
+      },
+    );
+
+    return streamablePromise;
+  }
+
+  protected createRequestBody(params: {
+    model: string;
+    messages: Message[];
+    tools?: Tool[];
+    temperature?: number;
+    maxTokens?: number;
+    streaming?: boolean;
+  }) {
+    const { system, messages } = convertMessagesToAnthropic(params.messages);
+    const tools = params.tools?.map(
+      (tool): Record<string, any> => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters ?? { type: "object", properties: {} },
+      }),
+    );
+
+    if (this.config.promptCaching) {
+      // everything up to a breakpoint is cached, so later requests only pay for what's new
+      for (const blocks of [tools, system, messages.at(-1)?.content]) {
+        const last = blocks?.at(-1);
+        if (last) last.cache_control = CACHE_BREAKPOINT;
+      }
+    }
+
+    const maxTokens = params.maxTokens ?? this.config.defaultMaxTokens!;
+    const thinkingBudget = this.config.thinkingBudget;
+    return {
+      model: params.model,
+      system: system.length ? system : undefined,
+      messages,
+      tools: tools?.length ? tools : undefined,
+      // thinking counts towards max_tokens, so it gets its own budget on top
+      max_tokens: thinkingBudget ? maxTokens + thinkingBudget : maxTokens,
+      thinking: thinkingBudget
+        ? { type: "enabled", budget_tokens: thinkingBudget }
+        : undefined,
+      // the temperature can't be changed while thinking
+      temperature: thinkingBudget ? undefined : params.temperature,
+      stream: params.streaming ?? false,
+    };
+  }
+
+  /**
+   * POST a request to the Messages API
+   * @throws AnthropicError if the API responds with an error
+   */
+  protected async request(body: object, signal?: AbortSignal) {
+    const response = await fetch(`${this.config.baseURL}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "anthropic-version": API_VERSION,
+        "x-api-key": this.config.apiKey ?? "",
+        ...this.config.headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let error: { type?: string; message?: string } | undefined;
+      try {
+        error = JSON.parse(text).error;
+      } catch {
+        // not JSON, e.g. from a proxy
+      }
+      throw new AnthropicError(
+        `Anthropic API error ${response.status}: ${error?.message ?? text}`,
+        response.status,
+        error?.type,
+        response.headers,
+      );
+    }
+    return response;
+  }
+
+  private async handleStreamingRequest(
+    body: object,
+    parseToolCalls: boolean,
+    toolCallDialect: ToolCallDialect | undefined,
+    signal?: AbortSignal,
+  ): Promise<EventEmitter> {
+    const response = await this.request(body, signal);
+
+    // Create a source emitter for the raw stream
+    const emitter = new EventEmitter();
+    const parsedEmitter = this.handleStreamingWithToolParsing(
+      emitter,
+      parseToolCalls,
+      toolCallDialect,
+    );
+
+    // content blocks by index, tool_use blocks collect their JSON as it streams
+    const blocks: (ContentBlock & {
+      toolCall?: ToolCall;
+      parser?: PartialJsonParser;
+    })[] = [];
+    let usage: AnthropicUsage | undefined;
+
+    (async () => {
+      for await (const { event, data } of readServerSentEvents(
+        response.body!,
+      )) {
+        switch (event) {
+          case "message_start":
+            usage = data.message.usage;
+            break;
+
+          case "content_block_start": {
+            const block = { ...data.content_block };
+            blocks[data.index] = block;
+            if (block.type === "tool_use") {
+              block.toolCall = new ToolCall(block.id, block.name);
+              block.parser = new PartialJsonParser();
+              emitter.emit("toolCallStart", block.id, block.name);
+            } else if (block.type === "text" && block.text) {
+              emitter.emit("chunk", block.text);
+            }
+            break;
+          }
+
+          case "content_block_delta": {
+            const block = blocks[data.index]!;
+            const delta = data.delta;
+            if (delta.type === "text_delta") {
+              block.text += delta.text;
+              emitter.emit("chunk", delta.text);
+            } else if (delta.type === "thinking_delta") {
+              block.thinking += delta.thinking;
+              emitter.emit("reasoning", delta.thinking);
+            } else if (delta.type === "signature_delta") {
+              block.signature = delta.signature;
+            } else if (delta.type === "input_json_delta") {
+              block.parser!.push(delta.partial_json);
+              emitter.emit(
+                "toolCallArgsDelta",
+                block.id,
+                delta.partial_json,
+                block.parser,
+              );
+            }
+            break;
+          }
+
+          case "content_block_stop": {
+            const block = blocks[data.index]!;
+            if (block.toolCall) {
+              const json = block.parser!.text.trim() || "{}";
+              try {
+                block.toolCall.args = parseJsonLenient(json);
+              } catch (error: any) {
+                this.logger.warn("Failed to parse tool call arguments", {
+                  tool: block.name,
+                  args: json,
+                });
+                // answered right away, so the model can try again
+                block.toolCall.result = toolError(
+                  `Invalid JSON in the arguments: ${error.message}`,
+                );
+              }
+              emitter.emit("toolCall", block.toolCall);
+            }
+            break;
+          }
+
+          case "message_delta":
+            // the final output count, and input counts if they changed
+            usage = {
+              ...usage!,
+              ...Object.fromEntries(
+                Object.entries(data.usage).filter(([, count]) => count != null),
+              ),
+            };
+            break;
+
+          case "error":
+            throw new AnthropicError(
+              `Anthropic API error: ${data.error.message}`,
+              undefined,
+              data.error.type,
+            );
+        }
+      }
+
+      const message = convertReply(
+        blocks.filter((block) => block.type !== "tool_use"),
+        usage,
+      );
+      const toolCalls = blocks
+        .map((block) => block.toolCall)
+        .filter((toolCall): toolCall is ToolCall => !!toolCall);
+      if (toolCalls.length) {
+        message.toolCalls = toolCalls;
+      }
+      emitter.emit("complete", message);
+    })().catch((error) => emitter.emit("error", error));
+
+    return parsedEmitter;
+  }
+}
+
+/**
+ * A reply's content blocks as a message. Signed thinking blocks are kept in
+ * providerData, the API needs them back while the model is using tools.
+ */
+function convertReply(content: ContentBlock[], usage?: AnthropicUsage) {
+  const text = content
+    .filter((block) => block.type === "text")
+    .map((block) => block.text)
+    .join("");
+  const message = new Message("assistant", text);
+
+  const thinking = content.filter(
+    (block) => block.type === "thinking" || block.type === "redacted_thinking",
+  );
+  message.reasoning =
+    thinking
+      .map((block) => block.thinking)
+      .filter(Boolean)
+      .join("\n\n") || undefined;
+  if (thinking.length) {
+    message.providerData = { anthropic: { thinking } };
+  }
+
+  const toolCalls = content
+    .filter((block) => block.type === "tool_use")
+    .map((block) => new ToolCall(block.id, block.name, block.input ?? {}));
+  if (toolCalls.length) {
+    message.toolCalls = toolCalls;
+  }
+
+  message.usage = convertUsage(usage);
+  return message;
+}
+
+function convertUsage(usage?: AnthropicUsage): Usage | undefined {
+  if (!usage) return undefined;
+
+  // input_tokens only counts what came after the last cache breakpoint
+  const cachedTokens = usage.cache_read_input_tokens ?? 0;
+  const promptTokens =
+    usage.input_tokens +
+    (usage.cache_creation_input_tokens ?? 0) +
+    cachedTokens;
+  return {
+    promptTokens,
+    completionTokens: usage.output_tokens,
+    totalTokens: promptTokens + usage.output_tokens,
+    cachedTokens,
+  };
+}
+
+/**
+ * Convert messages to the Messages API's system prompt and alternating user and assistant turns
+ */
+export function convertMessagesToAnthropic(messages: Message[]): {
+  system: ContentBlock[];
+  messages: AnthropicMessage[];
+} {
+  const system: ContentBlock[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  // consecutive messages of the same role are merged, e.g. all results of a round of tool calls
+  const push = (role: AnthropicMessage["role"], content: ContentBlock[]) => {
+    if (!content.length) return;
+    const previous = converted.at(-1);
+    if (previous?.role === role) {
+      previous.content.push(...content);
+    } else {
+      converted.push({ role, content });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      system.push({ type: "text", text: message.content });
+    } else if (message instanceof ToolMessage) {
+      push("user", [
+        {
+          type: "tool_result",
+          tool_use_id: message.toolCallId,
+          content: message.parts
+            ? message.parts.map(convertContentPart)
+            : message.content,
+          is_error: message.result?.ok === false || undefined,
+        },
+      ]);
+    } else if (message.role === "assistant") {
+      push("assistant", [
+        ...(message.providerData?.anthropic?.thinking ?? []),
+        ...textBlock(message.content),
+        ...(message.toolCalls ?? []).map((toolCall) => ({
+          type: "tool_use",
+          id: toolCall.id,
+          name: toolCall.name,
+          input: toolCall.args,
+        })),
+      ]);
+    } else {
+      push(
+        "user",
+        message.parts
+          ? message.parts.map(convertContentPart)
+          : textBlock(message.content),
+      );
+    }
+  }
+
+  return { system, messages: converted };
+}
+
+// the API rejects empty text blocks
+function textBlock(text: string): ContentBlock[] {
+  return text.trim() ? [{ type: "text", text }] : [];
+}
+
+function convertContentPart(part: ContentPart): ContentBlock {
+  switch (part.type) {
+    case "text":
+      return { type: "text", text: part.text };
+    case "image":
+      return {
+        type: "image",
+        source: {
+          type: "base64",
+          media_type: part.mimeType,
+          data: readPartData(part),
+        },
+      };
+    case "file":
+      if (part.mimeType === "application/pdf") {
+        return {
+          type: "document",
+          source: {
+            type: "base64",
+            media_type: part.mimeType,
+            data: readPartData(part),
+          },
+        };
+      }
+      // text files are inlined, like the OpenAI service does
+      return {
+        type: "text",
+        text: `<file path="${part.path}">\n${fs.readFileSync(part.path, "utf-8")}\n</file>`,
+      };
+  }
+}
@@ -0,0 +1,343 @@
+import * as path from "path";
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { Message, Tool, ToolCall, toolError } from "@fraimwork/core";
+import { AnthropicError, AnthropicService } from "../src/index.ts";
+import {
+  FakeServer,
+  startFakeServer,
+  streamFixture,
+} from "../../core/test/fakeServer.ts";
+
+const fixture = (name: string) =>
+  streamFixture(path.join(__dirname, "fixtures", name), "text/event-stream");
+
+// for requests that only check what was sent
+const okReply = {
+  body: {
+    type: "message",
+    role: "assistant",
+    content: [{ type: "text", text: "OK" }],
+    usage: { input_tokens: 1, output_tokens: 1 },
+  },
+};
+
+const readFile = new Tool(
+  {
+    name: "ReadFile",
+    description: "Read a file",
+    parameters: { path: { type: "string" } },
+    required: ["path"],
+  },
+  async () => "",
+);
+
+describe("AnthropicService", () => {
+  let server: FakeServer;
+  afterEach(() => server?.close());
+
+  it("streams text and reports usage including the prompt cache", async () => {
+    server = await startFakeServer([fixture("text.sse")]);
+    const service = new AnthropicService({
+      baseURL: server.url,
+      apiKey: "key",
+    });
+
+    const reply = service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [
+        new Message("system", "Be brief."),
+        new Message("user", "Say hello"),
+      ],
+      streaming: true,
+    });
+    const chunks: string[] = [];
+    reply.on("chunk", (chunk) => chunks.push(chunk));
+    const message = await reply;
+
+    expect(chunks).toEqual(["Hello", ", world!"]);
+    expect(message.content).toBe("Hello, world!");
+    expect(message.usage).toEqual({
+      promptTokens: 2060,
+      completionTokens: 6,
+      totalTokens: 2066,
+      cachedTokens: 2048,
+    });
+
+    const [request] = server.requests;
+    expect(request!.url).toBe("/v1/messages");
+    expect(request!.headers["x-api-key"]).toBe("key");
+    expect(request!.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(request!.body.stream).toBe(true);
+  });
+
+  it("puts cache breakpoints on the tools, system prompt and last message", async () => {
+    server = await startFakeServer([fixture("text.sse")]);
+    const service = new AnthropicService({ baseURL: server.url });
+
+    await service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [
+        new Message("system", "Be brief."),
+        new Message("user", "First"),
+        new Message("assistant", "Answer"),
+        new Message("user", "Second"),
+      ],
+      tools: [readFile],
+      streaming: true,
+    });
+
+    const { body } = server.requests[0]!;
+    const breakpoint = { type: "ephemeral" };
+    expect(body.tools.at(-1).cache_control).toEqual(breakpoint);
+    expect(body.system.at(-1).cache_control).toEqual(breakpoint);
+    expect(body.messages.at(-1).content.at(-1).cache_control).toEqual(
+      breakpoint,
+    );
+    expect(body.messages[0].content[0].cache_control).toBeUndefined();
+  });
+
+  it("leaves out breakpoints when prompt caching is off", async () => {
+    server = await startFakeServer([okReply]);
+    const service = new AnthropicService({
+      baseURL: server.url,
+      promptCaching: false,
+    });
+
+    await service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [new Message("user", "Hi")],
+      tools: [readFile],
+    });
+
+    expect(JSON.stringify(server.requests[0]!.body)).not.toContain(
+      "cache_control",
+    );
+  });
+
+  it("streams tool_use blocks as tool calls", async () => {
+    server = await startFakeServer([fixture("tool_use.sse")]);
+    const service = new AnthropicService({ baseURL: server.url });
+
+    const reply = service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [new Message("user", "Show me src/index.ts")],
+      tools: [readFile],
+      streaming: true,
+    });
+    const events: string[] = [];
+    reply.on("toolCallStart", (id, name) => events.push(`start ${id} ${name}`));
+    reply.on("toolCallArgsDelta", (_id, delta) =>
+      events.push(`delta ${delta}`),
+    );
+    reply.on("toolCall", (toolCall: ToolCall) =>
+      events.push(`end ${toolCall.args.path}`),
+    );
+    const message = await reply;
+
+    expect(events).toEqual([
+      "start toolu_01T1x1fJ34qAmk2tNTrN7Up6 ReadFile",
+      "delta ",
+      'delta {"path": "sr',
+      'delta c/index.ts"}',
+      "end src/index.ts",
+    ]);
+    expect(message.content).toBe("Let me read that file.");
+    expect(message.toolCalls).toHaveLength(1);
+    expect(message.toolCalls![0]).toMatchObject({
+      id: "toolu_01T1x1fJ34qAmk2tNTrN7Up6",
+      name: "ReadFile",
+      args: { path: "src/index.ts" },
+    });
+
+    expect(server.requests[0]!.body.tools[0]).toMatchObject({
+      name: "ReadFile",
+      input_schema: readFile.parameters,
+    });
+  });
+
+  it("sends tool results back as tool_result blocks", async () => {
+    server = await startFakeServer([okReply]);
+    const service = new AnthropicService({ baseURL: server.url });
+
+    const assistant = new Message("assistant", "Reading both.");
+    const found = new ToolCall("toolu_1", "ReadFile", { path: "a.ts" });
+    found.result = { ok: true, content: "export {}" };
+    const missing = new ToolCall("toolu_2", "ReadFile", { path: "b.ts" });
+    missing.result = toolError("File not found");
+    assistant.toolCalls = [found, missing];
+
+    await service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [
+        new Message("user", "Read a.ts and b.ts"),
+        assistant,
+        found.message,
+        missing.message,
+      ],
+      tools: [readFile],
+    });
+
+    const { messages } = server.requests[0]!.body;
+    expect(messages[1]).toEqual({
+      role: "assistant",
+      content: [
+        { type: "text", text: "Reading both." },
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "ReadFile",
+          input: { path: "a.ts" },
+        },
+        {
+          type: "tool_use",
+          id: "toolu_2",
+          name: "ReadFile",
+          input: { path: "b.ts" },
+        },
+      ],
+    });
+    // both results go in one user turn
+    expect(messages).toHaveLength(3);
+    expect(messages[2].role).toBe("user");
+    expect(messages[2].content[0]).toEqual({
+      type: "tool_result",
+      tool_use_id: "toolu_1",
+      content: "export {}",
+    });
+    expect(messages[2].content[1]).toMatchObject({
+      type: "tool_result",
+      tool_use_id: "toolu_2",
+      content: "Error: File not found",
+      is_error: true,
+    });
+  });
+
+  it("returns thinking as reasoning and sends the signed block back", async () => {
+    server = await startFakeServer([fixture("thinking.sse"), okReply]);
+    const service = new AnthropicService({
+      baseURL: server.url,
+      thinkingBudget: 2000,
+    });
+
+    const reply = service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [new Message("user", "What is 27 * 453?")],
+      temperature: 0.5,
+      maxTokens: 1000,
+      streaming: true,
+    });
+    const reasoning: string[] = [];
+    reply.on("reasoning", (chunk) => reasoning.push(chunk));
+    const message = await reply;
+
+    expect(reasoning.join("")).toBe("The user wants 27 * 453. That is 12231.");
+    expect(message.reasoning).toBe("The user wants 27 * 453. That is 12231.");
+    expect(message.content).toBe("27 * 453 = 12,231");
+    expect(message.usage).toMatchObject({
+      promptTokens: 1550,
+      cachedTokens: 0,
+    });
+
+    const { body } = server.requests[0]!;
+    expect(body.thinking).toEqual({ type: "enabled", budget_tokens: 2000 });
+    expect(body.max_tokens).toBe(3000);
+    expect(body.temperature).toBeUndefined();
+
+    await service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [
+        new Message("user", "What is 27 * 453?"),
+        message,
+        new Message("user", "Thanks"),
+      ],
+    });
+    const [thinking] = server.requests[1]!.body.messages[1].content;
+    expect(thinking).toEqual({
+      type: "thinking",
+      thinking: "The user wants 27 * 453. That is 12231.",
+      signature: "EqQBCgIYAhIM1gbcDa9GJwZA2b3hGgxBdjrkzLoky3dl1pkiMOYds",
+    });
+  });
+
+  it("reads non-streaming replies", async () => {
+    server = await startFakeServer([
+      {
+        body: {
+          id: "msg_1",
+          type: "message",
+          role: "assistant",
+          content: [
+            { type: "text", text: "Reading it." },
+            {
+              type: "tool_use",
+              id: "toolu_1",
+              name: "ReadFile",
+              input: { path: "a.ts" },
+            },
+          ],
+          usage: { input_tokens: 10, output_tokens: 5 },
+        },
+      },
+    ]);
+    const service = new AnthropicService({ baseURL: server.url });
+
+    const message = await service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [new Message("user", "Read a.ts")],
+      tools: [readFile],
+    });
+
+    expect(message.content).toBe("Reading it.");
+    expect(message.toolCalls![0]).toMatchObject({
+      id: "toolu_1",
+      args: { path: "a.ts" },
+    });
+    expect(message.usage).toEqual({
+      promptTokens: 10,
+      completionTokens: 5,
+      totalTokens: 15,
+      cachedTokens: 0,
+    });
+  });
+
+  it("rejects with the API's error", async () => {
+    server = await startFakeServer([
+      {
+        status: 429,
+        headers: { "retry-after": "7" },
+        body: {
+          type: "error",
+          error: { type: "rate_limit_error", message: "Slow down" },
+        },
+      },
+    ]);
+    const service = new AnthropicService({ baseURL: server.url });
+
+    const error = await service
+      .send({ model: "claude-sonnet-4-20250514", messages: [] })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(AnthropicError);
+    expect(error.message).toBe("Anthropic API error 429: Slow down");
+    expect(error.status).toBe(429);
+    expect(error.type).toBe("rate_limit_error");
+    expect(error.headers.get("retry-after")).toBe("7");
+  });
+
+  it("rejects with errors sent in the middle of a stream", async () => {
+    server = await startFakeServer([fixture("overloaded.sse")]);
+    const service = new AnthropicService({ baseURL: server.url });
+
+    const reply = service.send({
+      model: "claude-sonnet-4-20250514",
+      messages: [new Message("user", "Hi")],
+      streaming: true,
+    });
+    reply.on("error", () => {});
+    const error = await reply.catch((error) => error);
+
+    expect(error).toBeInstanceOf(AnthropicError);
+    expect(error.status).toBeUndefined();
+    expect(error.type).toBe("overloaded_error");
+  });
+});
@@ -22,6 +22,8 @@ export function analyzeDependencies(): Tool {
           description: "Specific file to analyze dependencies for (optional)",
         },
       },
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const { directory, file } = args as {
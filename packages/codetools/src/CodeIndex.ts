@@ -25,6 +25,8 @@ export function codeIndex(): Tool {
             "File extensions to index (default: ['.ts', '.js', '.tsx', '.jsx', '.py', '.java', '.cpp', '.c', '.h'])",
         },
       },
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const { directory, extensions } = args as {
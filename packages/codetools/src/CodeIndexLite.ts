@@ -18,6 +18,8 @@ export function codeIndexLite(): Tool {
             "The directory to index (default: 'src' if it exists, otherwise current directory)",
         },
       },
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const { directory } = args as {
@@ -30,6 +30,8 @@ export function findSymbol(): Tool {
         },
       },
       required: ["symbol"],
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const { symbol, directory, type } = args as {
@@ -1,10 +1,11 @@
-import { Tool } from "@fraimwork/core";
+import { AbortError, Tool, toolError, toolSuccess } from "@fraimwork/core";
 import { exec } from "child_process";
 import { promisify } from "util";
 
 const execPromise = promisify(exec);
 /**
- * Type checks a TypeScript file or directory and returns errors
+ * Type checks a TypeScript file or directory and returns errors.
+ * The result data is the list of error lines, empty when there are none.
  */
 export function typeCheck(): Tool {
   return new Tool(
@@ -17,8 +18,10 @@ export function typeCheck(): Tool {
           description: "Path to file or directory to type check",
         },
       },
+      concurrencySafe: true,
+      risk: "read",
     },
-    async (args: { path?: string }) => {
+    async (args: { path?: string }, signal?: AbortSignal) => {
       const { path } = args || {};
 
       // Run npx tsc with appropriate flags
@@ -28,6 +31,7 @@ export function typeCheck(): Tool {
         const { stdout, stderr } = await execPromise(command, {
           cwd: process.cwd(),
           maxBuffer: 1024 * 1024 * 10, // 10MB buffer
+          signal,
         });
 
         // If there's output in stderr, it might contain errors
@@ -42,7 +46,7 @@ export function typeCheck(): Tool {
             );
 
           if (errorLines.length > 0) {
-            return JSON.stringify(errorLines, null, 2);
+            return toolSuccess(JSON.stringify(errorLines, null, 2), errorLines);
           }
         }
 
@@ -57,12 +61,16 @@ export function typeCheck(): Tool {
             );
 
           if (errorLines.length > 0) {
-            return JSON.stringify(errorLines, null, 2);
+            return toolSuccess(JSON.stringify(errorLines, null, 2), errorLines);
           }
         }
 
-        return "No type errors found";
+        return toolSuccess("No type errors found", [] as string[]);
       } catch (execError: any) {
+        if (signal?.aborted) {
+          throw new AbortError();
+        }
+
         // Parse the error output to extract meaningful information
         if (execError.stderr || execError.stdout) {
           const output = execError.stderr || execError.stdout;
@@ -75,13 +83,13 @@ export function typeCheck(): Tool {
             );
 
           if (errorLines.length > 0) {
-            return JSON.stringify(errorLines, null, 2);
+            return toolSuccess(JSON.stringify(errorLines, null, 2), errorLines);
           }
 
-          return `TypeScript compilation failed: ${output}`;
+          return toolError(`TypeScript compilation failed: ${output}`);
         }
 
-        return `Error during type checking: ${execError.message}`;
+        return toolError(`Type checking failed: ${execError.message}`);
       }
     },
   );
@@ -0,0 +1,20 @@
+/**
+ * Thrown when a send or tool call is cancelled through an AbortSignal
+ */
+export class AbortError extends Error {
+  public override readonly name = "AbortError";
+
+  constructor(message: string = "The operation was aborted") {
+    super(message);
+  }
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted
+ * @param signal - The signal to check
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
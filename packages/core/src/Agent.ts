@@ -3,13 +3,65 @@ import { Tool } from "./Tool.ts";
 import { LLMService } from "./LLMService.ts";
 import { Message } from "./Message.ts";
 import { ToolCall } from "./ToolCall.ts";
-import { d } from "./utils.ts";
+import { StreamablePromise } from "./StreamablePromise.ts";
+import { STREAM_EVENT_LISTENERS } from "./StreamEvent.ts";
+import type { PartialJsonParser } from "./PartialJsonParser.ts";
+import type { ToolCallDialect } from "./ToolCallDialect.ts";
+import { AbortError, throwIfAborted } from "./AbortError.ts";
+import type { AgentHooks, HookContext, ToolHookContext } from "./AgentHooks.ts";
+import { ApprovalPolicy, DEFAULT_APPROVAL_POLICY } from "./Approval.ts";
+import {
+  DEFAULT_REASONING_POLICY,
+  joinReasoning,
+  ReasoningPolicy,
+  withoutReasoning,
+} from "./Reasoning.ts";
+import type { SchemaIssue } from "./schemaUtils.ts";
+import { ToolResult, toolError } from "./ToolResult.ts";
+import { ContextManager, SummarizingContextManager } from "./ContextManager.ts";
+import { d, mapConcurrent } from "./utils.ts";
+import { estimateTokenizer, Tokenizer } from "./Tokenizer.ts";
+import { addUsage, calculateCost, UsageTracker } from "./Usage.ts";
+import type { Pricing, Usage } from "./Usage.ts";
+import { getLogger, Logger } from "./Logger.ts";
+import { getTracer, Span, Tracer } from "./Tracer.ts";
 
 export interface ModelConfig {
   name: string;
   service: LLMService;
   parseToolCalls?: boolean;
+  // the text format for tool calls when parseToolCalls is set, defaults to jsonTagDialect
+  toolCallDialect?: ToolCallDialect;
   noStreaming?: boolean;
+  // context window in tokens
+  contextSize?: number;
+  // counts tokens for context budgeting, defaults to estimateTokenizer
+  tokenizer?: Tokenizer;
+  // USD per million tokens, used to calculate the cost of each request
+  pricing?: Pricing;
+}
+
+// used when a model doesn't declare its context size
+const DEFAULT_CONTEXT_SIZE = 32000;
+// tokens reserved for the reply when maxTokens isn't set
+const DEFAULT_REPLY_RESERVE = 4096;
+
+/**
+ * Limits applied to a single top-level send, including every tool round it triggers
+ */
+export interface AgentLimits {
+  // Maximum number of tool-call rounds (LLM reply -> tool calls -> LLM again)
+  maxToolRounds?: number;
+  // Maximum number of individual tool calls across all rounds
+  maxToolCalls?: number;
+  // Maximum elapsed time in milliseconds
+  maxDuration?: number;
+}
+
+export interface LimitReachedEvent {
+  limit: keyof AgentLimits;
+  value: number;
+  reason: string;
 }
 
 export abstract class Agent extends EventEmitter {
@@ -17,9 +69,38 @@ export abstract class Agent extends EventEmitter {
   public abstract tools: Tool[];
   public temperature: number = 0.2;
   public maxTokens?: number;
+  public limits: AgentLimits = { maxToolRounds: 50 };
+  // maximum number of concurrency-safe tool calls to run at once
+  public toolConcurrency: number = 4;
+  // keeps each request within the model's context window
+  public contextManager: ContextManager = new SummarizingContextManager();
+  // token usage and cost of every request this agent makes
+  public readonly usage: UsageTracker = new UsageTracker();
+  // run in order around each LLM request and tool call, see AgentHooks
+  public hooks: AgentHooks[] = [];
+  // which tool calls need the user's approval, enforced by the requireApproval hooks
+  public approvalPolicy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY;
+  // what happens to reasoning from thinking models, see ReasoningPolicy
+  public reasoningPolicy: ReasoningPolicy = DEFAULT_REASONING_POLICY;
+  public logger: Logger = getLogger();
+  // records a span for each turn, LLM request and tool call
+  public tracer: Tracer = getTracer();
 
   protected model: ModelConfig;
 
+  // whether a send is in progress, sends share the history so they can't overlap
+  protected sending = false;
+  // state for the send currently in progress, shared by recursive tool rounds
+  protected run?: {
+    toolRounds: number;
+    toolCalls: number;
+    startedAt: number;
+    signal?: AbortSignal;
+    // the agent turn and the LLM request whose tool calls are running
+    span?: Span;
+    llmSpan?: Span;
+  };
+
   constructor(modelConfig: ModelConfig) {
     super();
     this.model = modelConfig;
@@ -37,31 +118,203 @@ export abstract class Agent extends EventEmitter {
     return this.model.parseToolCalls ?? false;
   }
 
+  protected get toolCallDialect(): ToolCallDialect | undefined {
+    return this.model.toolCallDialect;
+  }
+
   protected get noStreaming(): boolean {
     return this.model.noStreaming ?? false;
   }
 
+  protected get contextSize(): number {
+    return this.model.contextSize ?? DEFAULT_CONTEXT_SIZE;
+  }
+
+  public get tokenizer(): Tokenizer {
+    return this.model.tokenizer ?? estimateTokenizer;
+  }
+
   public history: Message[] = [];
 
   /**
-   * Unified send method with event-driven streaming
+   * Start a new conversation: clears the history, what the context manager
+   * kept about it, such as summaries, and the usage recorded so far
+   */
+  public reset(): void {
+    this.history = [];
+    this.contextManager.reset?.();
+    this.usage.reset();
+  }
+
+  /**
+   * Add hooks after the ones already registered
+   */
+  public use(...hooks: AgentHooks[]): this {
+    this.hooks.push(...hooks);
+    return this;
+  }
+
+  /**
+   * Unified send method with event-driven streaming. Await it for the reply,
+   * or iterate it with `for await` to get the events of this send.
+   * Rejects if the agent is still handling an earlier send.
+   * @param signal - aborts the request and any tool calls it triggers, rejecting with an AbortError
    */
-  public async send(
+  public send(
     message?: Message,
     streaming: boolean = true,
+    signal?: AbortSignal,
+  ): StreamablePromise<Message> {
+    if (this.sending) {
+      return new StreamablePromise<Message>((_resolve, reject) =>
+        reject(
+          new Error(
+            `${this.constructor.name} is still handling a message, wait for its reply before sending another`,
+          ),
+        ),
+      );
+    }
+    this.sending = true;
+
+    const forwarded = Object.keys(STREAM_EVENT_LISTENERS).map((name) => {
+      const listener = (...args: any[]) =>
+        streamablePromise.emit(name, ...args);
+      this.on(name, listener);
+      return [name, listener] as const;
+    });
+    const stopForwarding = () => {
+      for (const [name, listener] of forwarded) this.off(name, listener);
+      this.sending = false;
+    };
+
+    const streamablePromise = new StreamablePromise<Message>(
+      (resolve, reject) => {
+        this.sendMessage(message, streaming, signal).then(
+          (reply) => {
+            stopForwarding();
+            resolve(reply);
+          },
+          (error) => {
+            stopForwarding();
+            reject(error);
+          },
+        );
+      },
+    );
+    return streamablePromise;
+  }
+
+  /**
+   * Send a message, or continue the conversation after tool calls when there is none
+   */
+  protected async sendMessage(
+    message?: Message,
+    streaming: boolean = true,
+    signal?: AbortSignal,
   ): Promise<Message> {
+    const isRootSend = !this.run;
+    if (isRootSend) {
+      this.run = {
+        toolRounds: 0,
+        toolCalls: 0,
+        startedAt: Date.now(),
+        signal,
+        span: this.tracer.startSpan("agent.turn", "agent", {
+          agent: this.constructor.name,
+          "gen_ai.request.model": this.modelName,
+        }),
+      };
+    }
+    const run = this.run!;
+
+    try {
+      const reply = await this.sendWithinRun(message, streaming);
+      if (isRootSend) {
+        run.span
+          ?.setAttributes({
+            toolRounds: run.toolRounds,
+            toolCalls: run.toolCalls,
+            ...usageAttributes(reply.usage),
+          })
+          .end();
+      }
+      return reply;
+    } catch (error) {
+      if (isRootSend) {
+        run.span?.end(error);
+      }
+      throw error;
+    } finally {
+      if (isRootSend) {
+        this.run = undefined;
+      }
+    }
+  }
+
+  private async sendWithinRun(
+    message: Message | undefined,
+    streaming: boolean,
+  ): Promise<Message> {
+    const signal = this.run?.signal;
+    throwIfAborted(signal);
+
     const messages = message
       ? await this.processMessage(message, await this.getHistoricalContext())
       : await this.getHistoricalContext();
 
+    const hookContext: HookContext = { agent: this, signal };
+    let processedMessages = this.processMessages(messages);
+    for (const hook of this.hooks) {
+      const result = await hook.beforeSend?.(processedMessages, hookContext);
+      if (Array.isArray(result)) {
+        processedMessages = result;
+      } else if (result) {
+        // a hook answered in place of the model
+        if (this.run) {
+          this.run.llmSpan = undefined;
+        }
+        if (streaming && result.content) {
+          this.emit("chunk", result.content);
+        }
+        return this.handleReply(result, streaming, hookContext);
+      }
+    }
+
+    const context = await this.contextManager.fit(processedMessages, {
+      contextSize: this.contextSize,
+      reserve:
+        (this.maxTokens ?? DEFAULT_REPLY_RESERVE) +
+        this.tokenizer.count(
+          JSON.stringify(this.tools.map((t) => t.parameters)),
+        ),
+      tokenizer: this.tokenizer,
+      signal,
+      usage: this.usage,
+    });
+
+    const llmSpan = this.tracer.startSpan(
+      "llm.request",
+      "llm",
+      {
+        "gen_ai.request.model": this.modelName,
+        "gen_ai.request.temperature": this.temperature,
+        messages: context.length,
+        streaming: streaming && !this.noStreaming,
+      },
+      this.run?.span,
+    );
+
     const streamablePromise = this.llmService.send({
       model: this.modelName,
-      messages: this.processMessages(messages),
+      messages: context,
       tools: this.tools,
       temperature: this.temperature,
       maxTokens: this.maxTokens,
       parseToolCalls: this.parseToolCalls,
+      toolCallDialect: this.toolCallDialect,
       streaming: streaming && !this.noStreaming,
+      tokenizer: this.tokenizer,
+      signal,
     } as any);
 
     // Set up event listeners for streaming
@@ -69,16 +322,59 @@ export abstract class Agent extends EventEmitter {
       this.emit("chunk", chunk);
     });
 
+    streamablePromise.on("reasoning", (chunk: string) => {
+      this.emit("reasoning", chunk);
+    });
+
+    streamablePromise.on("toolCallStart", (id: string, name: string) => {
+      this.emit("toolCallStart", id, name);
+    });
+
+    streamablePromise.on(
+      "toolCallArgsDelta",
+      (id: string, delta: string, parser: PartialJsonParser) => {
+        this.emit("toolCallArgsDelta", id, delta, parser);
+      },
+    );
+
     streamablePromise.on("toolCall", (toolCall: ToolCall) => {
       this.emit("toolCall", toolCall);
     });
 
     streamablePromise.on("error", (error: Error) => {
-      this.emit("error", error);
+      // the error also rejects the send, an unheard "error" event would throw
+      if (!(error instanceof AbortError) && this.listenerCount("error")) {
+        this.emit("error", error);
+      }
     });
 
-    const reply = await streamablePromise;
-    streamablePromise.removeAllListeners();
+    let reply: Message;
+    try {
+      reply = await streamablePromise;
+      this.recordUsage(reply);
+      llmSpan.setAttributes(usageAttributes(reply.usage)).end();
+    } catch (error) {
+      llmSpan.end(error);
+      reply = await this.handleError(error, hookContext);
+    } finally {
+      streamablePromise.removeAllListeners();
+    }
+
+    if (this.run) {
+      this.run.llmSpan = llmSpan;
+    }
+    return this.handleReply(reply, streaming, hookContext);
+  }
+
+  private async handleReply(
+    reply: Message,
+    streaming: boolean,
+    hookContext: HookContext,
+  ): Promise<Message> {
+    for (const hook of this.hooks) {
+      reply = (await hook.afterReply?.(reply, hookContext)) ?? reply;
+    }
+
     try {
       const newReply = (await this.processReply(
         reply,
@@ -88,7 +384,9 @@ export abstract class Agent extends EventEmitter {
       this.emit("complete", newReply);
       return newReply;
     } catch (error) {
-      this.emit("error", error);
+      if (!(error instanceof AbortError) && this.listenerCount("error")) {
+        this.emit("error", error);
+      }
       throw error;
     }
   }
@@ -97,30 +395,68 @@ export abstract class Agent extends EventEmitter {
     reply: Message,
     streaming = false,
   ): Promise<Message> {
-    this.history.push(reply);
+    // the caller gets the reasoning, the history only if the policy keeps it
+    const historyEntry = this.reasoningPolicy.keep
+      ? reply
+      : withoutReasoning(reply);
+    this.history.push(historyEntry);
 
     if (reply.toolCalls?.length) {
+      let limitReached = this.checkLimits(true);
+      const toolCallsToRun: ToolCall[] = [];
       for (const toolCall of reply.toolCalls) {
-        try {
-          const tool = this.tools.find((t) => t.name === toolCall.name);
-          console.log(
-            `[ ToolCall: ${toolCall.name} ${JSON.stringify(toolCall.args).replace(/\s+/g, " ").substring(0, 60)} ]`,
+        if (toolCall.result) {
+          // answered by the service, e.g. a call it couldn't parse
+          this.emit("toolResult", toolCall);
+          continue;
+        }
+        limitReached ??= this.checkLimits();
+        if (limitReached) {
+          // every tool call needs a result or the history is rejected on the next request
+          toolCall.result = toolError(
+            `Tool call skipped. ${limitReached.reason}`,
           );
-          if (tool) {
-            toolCall.result = await tool.call(toolCall.args);
-          } else {
-            toolCall.result = `Error: Tool "${toolCall.name}" not found`;
-          }
-        } catch (e: any) {
-          toolCall.result = `Error: "${e.message}"`;
+          continue;
         }
 
-        console.log(toolCall.result.substring(0, 80).replace(/\s+/g, " "));
+        if (this.run) this.run.toolCalls++;
+        toolCallsToRun.push(toolCall);
+      }
+
+      await this.runToolCalls(toolCallsToRun);
+
+      if (this.run?.signal?.aborted) {
+        // drop the calls that never ran so the history stays valid for the next request
+        const completed = reply.toolCalls.filter(
+          (toolCall) => toolCall.result !== undefined,
+        );
+        reply.toolCalls = completed.length ? completed : undefined;
+        historyEntry.toolCalls = reply.toolCalls;
+        for (const toolCall of completed) {
+          this.history.push(toolCall.message);
+        }
+        throw new AbortError();
+      }
 
+      // results go into history in the order the model asked for them
+      for (const toolCall of reply.toolCalls) {
         this.history.push(toolCall.message);
       }
 
-      const newReply = await this.send(undefined, streaming);
+      if (limitReached) {
+        this.emit("limitReached", limitReached);
+        const partialMessage = new Message(
+          "assistant",
+          `${reply.content}\n\n[ Stopped: ${limitReached.reason} ]`,
+        );
+        partialMessage.toolCalls = reply.toolCalls;
+        partialMessage.usage = reply.usage;
+        partialMessage.reasoning = reply.reasoning;
+        return partialMessage;
+      }
+
+      if (this.run) this.run.toolRounds++;
+      const newReply = await this.sendMessage(undefined, streaming);
       // the ToolCall and response go in history because the assistant knows what to do with them,
       // but the client is only expecting a reply, so return the messages stitched together.
       // stream will emit as it should because it's the same instance of Agent.
@@ -132,6 +468,11 @@ export abstract class Agent extends EventEmitter {
         ...reply.toolCalls,
         ...(newReply.toolCalls ?? []),
       ];
+      mergedMessage.usage = addUsage(reply.usage, newReply.usage);
+      mergedMessage.reasoning = joinReasoning(
+        reply.reasoning,
+        newReply.reasoning,
+      );
 
       return mergedMessage;
     }
@@ -139,6 +480,188 @@ export abstract class Agent extends EventEmitter {
     return reply;
   }
 
+  /**
+   * Give the onError hooks a chance to recover from a failed request
+   * @returns the reply provided by a hook
+   * @throws the original error if no hook recovers
+   */
+  private async handleError(
+    error: unknown,
+    hookContext: HookContext,
+  ): Promise<Message> {
+    if (!(error instanceof AbortError)) {
+      for (const hook of this.hooks) {
+        const reply = await hook.onError?.(error, hookContext);
+        if (reply) return reply;
+      }
+    }
+    throw error;
+  }
+
+  /**
+   * Add the cost to a reply's usage and record it
+   */
+  protected recordUsage(reply: Message): void {
+    if (!reply.usage) return;
+
+    if (this.model.pricing) {
+      reply.usage.cost = calculateCost(reply.usage, this.model.pricing);
+    }
+    this.usage.record(this.modelName, reply.usage);
+    this.emit("usage", reply.usage);
+  }
+
+  /**
+   * Run tool calls in order. Consecutive calls to concurrency-safe tools are run
+   * together, up to toolConcurrency at a time; any other tool call runs alone.
+   */
+  protected async runToolCalls(toolCalls: ToolCall[]): Promise<void> {
+    let index = 0;
+    while (index < toolCalls.length && !this.run?.signal?.aborted) {
+      const batch = [toolCalls[index]!];
+      if (this.findTool(batch[0]!.name)?.concurrencySafe) {
+        for (const next of toolCalls.slice(index + 1)) {
+          if (!this.findTool(next.name)?.concurrencySafe) break;
+          batch.push(next);
+        }
+      }
+
+      await mapConcurrent(batch, this.toolConcurrency, (toolCall) =>
+        this.runToolCall(toolCall),
+      );
+      index += batch.length;
+    }
+  }
+
+  protected async runToolCall(toolCall: ToolCall): Promise<void> {
+    const tool = this.findTool(toolCall.name);
+    const hookContext: ToolHookContext = {
+      agent: this,
+      signal: this.run?.signal,
+      tool,
+    };
+    const span = this.tracer.startSpan(
+      `tool ${toolCall.name}`,
+      "tool",
+      {
+        "gen_ai.tool.name": toolCall.name,
+        "gen_ai.tool.call.id": toolCall.id,
+      },
+      this.run?.llmSpan ?? this.run?.span,
+    );
+
+    try {
+      let result: ToolResult | void = undefined;
+      for (const hook of this.hooks) {
+        result = await hook.beforeToolCall?.(toolCall, hookContext);
+        if (result) break;
+      }
+
+      this.logger.debug("Running tool call", {
+        tool: toolCall.name,
+        args: toolCall.args,
+      });
+      span.setAttributes({
+        args: JSON.stringify(toolCall.args ?? {}).substring(0, 1000),
+      });
+      if (result) {
+        // vetoed or answered by a hook
+        toolCall.result = result;
+      } else if (tool) {
+        const { args, issues } = tool.validate(toolCall.args);
+        toolCall.args = args;
+        toolCall.result = issues.length
+          ? this.formatValidationError(tool, issues)
+          : await tool.call(args, this.run?.signal);
+      } else {
+        toolCall.result = toolError(`Tool "${toolCall.name}" not found`);
+      }
+
+      for (const hook of this.hooks) {
+        toolCall.result =
+          (await hook.afterToolCall?.(
+            toolCall,
+            toolCall.result,
+            hookContext,
+          )) ?? toolCall.result;
+      }
+    } catch (e: any) {
+      if (e instanceof AbortError) {
+        span.end(e);
+        return;
+      }
+      toolCall.result = toolError(`"${e.message}"`);
+    }
+
+    span
+      .setAttributes({
+        ok: toolCall.result.ok,
+        resultTokens: this.tokenizer.count(toolCall.result.content),
+      })
+      .end(toolCall.result.ok ? undefined : toolCall.result.error);
+    this.emit("toolResult", toolCall);
+  }
+
+  /**
+   * Describe invalid tool arguments in a form the model can use to correct its call
+   */
+  protected formatValidationError(
+    tool: Tool,
+    issues: SchemaIssue[],
+  ): ToolResult {
+    return toolError(
+      `Invalid arguments for tool "${tool.name}". Correct them and call the tool again.
+${JSON.stringify({ issues, parameters: tool.parameters })}`,
+      { issues },
+    );
+  }
+
+  protected findTool(name: string): Tool | undefined {
+    return this.tools.find((t) => t.name === name);
+  }
+
+  /**
+   * Check the send in progress against the configured limits
+   * @param newRound - whether a new round of tool calls is about to start
+   * @returns the limit that was reached, if any
+   */
+  protected checkLimits(newRound = false): LimitReachedEvent | undefined {
+    const { maxToolRounds, maxToolCalls, maxDuration } = this.limits;
+    const run = this.run;
+    if (!run) return undefined;
+
+    if (
+      newRound &&
+      maxToolRounds !== undefined &&
+      run.toolRounds >= maxToolRounds
+    ) {
+      return {
+        limit: "maxToolRounds",
+        value: maxToolRounds,
+        reason: `Reached the maximum of ${maxToolRounds} tool rounds.`,
+      };
+    }
+
+    if (maxToolCalls !== undefined && run.toolCalls >= maxToolCalls) {
+      return {
+        limit: "maxToolCalls",
+        value: maxToolCalls,
+        reason: `Reached the maximum of ${maxToolCalls} tool calls.`,
+      };
+    }
+
+    if (
+      maxDuration !== undefined &&
+      Date.now() - run.startedAt >= maxDuration
+    ) {
+      return {
+        limit: "maxDuration",
+        value: maxDuration,
+        reason: `Reached the time limit of ${Math.round(maxDuration / 1000)}s.`,
+      };
+    }
+  }
+
   protected async getHistoricalContext(): Promise<Message[]> {
     return [new Message("system", this.systemPrompt), ...this.history];
   }
@@ -157,3 +680,15 @@ export abstract class Agent extends EventEmitter {
     return messages;
   }
 }
+
+function usageAttributes(usage?: Usage): Record<string, any> {
+  if (!usage) return {};
+
+  return {
+    "gen_ai.usage.input_tokens": usage.promptTokens,
+    "gen_ai.usage.output_tokens": usage.completionTokens,
+    cachedTokens: usage.cachedTokens,
+    cost: usage.cost,
+    estimatedUsage: usage.estimated,
+  };
+}
@@ -0,0 +1,63 @@
+import type { Agent } from "./Agent.ts";
+import type { Message } from "./Message.ts";
+import type { Tool } from "./Tool.ts";
+import type { ToolCall } from "./ToolCall.ts";
+import type { ToolResult } from "./ToolResult.ts";
+
+export type HookResult<T> = T | void | Promise<T | void>;
+
+export interface HookContext {
+  agent: Agent;
+  signal?: AbortSignal;
+}
+
+export interface ToolHookContext extends HookContext {
+  // undefined when the model called a tool that doesn't exist
+  tool?: Tool;
+}
+
+/**
+ * Hooks around each step of an agent's send. Every hook is optional and hooks
+ * run in the order they were added; returning nothing leaves the step unchanged.
+ * Throwing from a hook fails the send.
+ */
+export interface AgentHooks {
+  /**
+   * Runs before each LLM request, including the requests of later tool rounds.
+   * Return an array to replace the messages, or a Message to skip the request
+   * and use it as the reply.
+   */
+  beforeSend?(
+    messages: Message[],
+    context: HookContext,
+  ): HookResult<Message[] | Message>;
+
+  /**
+   * Runs when the LLM replies, before its tool calls are run. Return a Message to replace the reply.
+   */
+  afterReply?(reply: Message, context: HookContext): HookResult<Message>;
+
+  /**
+   * Runs before a tool call is validated and run. The call's args may be changed in place.
+   * Return a ToolResult to skip the call and use it as the result.
+   */
+  beforeToolCall?(
+    toolCall: ToolCall,
+    context: ToolHookContext,
+  ): HookResult<ToolResult>;
+
+  /**
+   * Runs after a tool call, including calls that failed validation. Return a ToolResult to replace the result.
+   */
+  afterToolCall?(
+    toolCall: ToolCall,
+    result: ToolResult,
+    context: ToolHookContext,
+  ): HookResult<ToolResult>;
+
+  /**
+   * Runs when an LLM request fails. Return a Message to use it as the reply instead of failing.
+   * Not called for aborted requests.
+   */
+  onError?(error: unknown, context: HookContext): HookResult<Message>;
+}
@@ -0,0 +1,178 @@
+import type { AgentHooks } from "./AgentHooks.ts";
+import { Message } from "./Message.ts";
+import { matchesGlob } from "./pathUtils.ts";
+import type { Tool, ToolRisk } from "./Tool.ts";
+import type { ToolCall } from "./ToolCall.ts";
+import { toolError } from "./ToolResult.ts";
+
+export type ApprovalDecision = "allow" | "ask" | "deny";
+
+export interface ApprovalRule {
+  // tool name, or a glob pattern such as "*File"
+  tool?: string;
+  // glob pattern matched against every path argument of the call, e.g. ".env*" or "src/**"
+  path?: string;
+  decision: ApprovalDecision;
+}
+
+/**
+ * Decides which tool calls need the user's approval. The first rule that
+ * matches a call wins; calls no rule matches are decided by the tool's risk.
+ */
+export interface ApprovalPolicy {
+  rules?: ApprovalRule[];
+  risks?: Partial<Record<ToolRisk, ApprovalDecision>>;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  rules: [],
+  risks: { read: "allow", write: "ask", destructive: "ask" },
+};
+
+export interface ApprovalRequest {
+  toolCall: ToolCall;
+  tool?: Tool;
+  risk: ToolRisk;
+  // file paths the call would touch
+  paths: string[];
+  // what the call would change, from the tool's preview
+  preview?: string;
+}
+
+export type ApprovalResponse =
+  // args replaces the call's arguments, for edits made by the user
+  | { approved: true; args?: Record<string, any> }
+  | { approved: false; reason?: string };
+
+/**
+ * Asks the user to approve a tool call, e.g. with a CLI prompt or a client round trip
+ */
+export type Approver = (
+  request: ApprovalRequest,
+  signal?: AbortSignal,
+) => Promise<ApprovalResponse>;
+
+// arguments the built-in tools use for file paths
+const PATH_ARGUMENTS = [
+  "path",
+  "filePath",
+  "oldPath",
+  "newPath",
+  "files",
+  "paths",
+];
+
+/**
+ * Collect the file paths a tool call's arguments refer to
+ */
+export function getToolCallPaths(toolCall: ToolCall): string[] {
+  const args = toolCall.args ?? {};
+  return PATH_ARGUMENTS.flatMap((name) => {
+    const value = args[name];
+    if (typeof value === "string") return [value];
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === "string");
+    }
+    return [];
+  });
+}
+
+/**
+ * Decide whether a tool call is allowed, denied or needs approval
+ */
+export function resolveApproval(
+  policy: ApprovalPolicy,
+  toolCall: ToolCall,
+  risk: ToolRisk,
+): ApprovalDecision {
+  const paths = getToolCallPaths(toolCall);
+  const rule = policy.rules?.find(
+    (rule) =>
+      (!rule.tool ||
+        rule.tool === toolCall.name ||
+        matchName(rule.tool, toolCall.name)) &&
+      (!rule.path ||
+        paths.some((filePath) => matchesGlob(rule.path!, filePath))),
+  );
+
+  return (
+    rule?.decision ??
+    policy.risks?.[risk] ??
+    DEFAULT_APPROVAL_POLICY.risks![risk]!
+  );
+}
+
+// added to the system prompt by requireApproval, so only agents that ask tell the model about it
+export const APPROVAL_INSTRUCTIONS =
+  "Some tool calls, such as changes to files, may need the user's approval before they run. If a tool call is denied, do not retry it unchanged; read the reason and adjust your approach or ask the user.";
+
+/**
+ * Hooks that check each tool call against the agent's approval policy and ask
+ * the approver about calls that need approval. Denied calls return an error to
+ * the model instead of running. The system prompt tells the model to expect this.
+ * @param approver - Asks the user
+ */
+export function requireApproval(approver: Approver): AgentHooks {
+  return {
+    beforeSend(messages) {
+      const [system, ...rest] = messages;
+      if (system?.role !== "system") return;
+      return [
+        new Message("system", `${system.content}\n\n${APPROVAL_INSTRUCTIONS}`),
+        ...rest,
+      ];
+    },
+
+    async beforeToolCall(toolCall, { agent, tool, signal }) {
+      // calls to unknown tools fail without running anything
+      if (!tool) return;
+
+      const risk = tool.risk;
+      const decision = resolveApproval(agent.approvalPolicy, toolCall, risk);
+
+      if (decision === "allow") return;
+      if (decision === "deny") {
+        return toolError(
+          `The approval policy does not allow ${toolCall.name} with these arguments.`,
+        );
+      }
+
+      // previews get checked arguments, invalid calls fail validation when they run
+      let preview: string | undefined;
+      const { args, issues } = tool.validate(toolCall.args);
+      if (!issues.length) {
+        try {
+          preview = await tool.preview?.(args);
+        } catch {
+          // the preview is a courtesy, the call itself reports any problem
+        }
+      }
+
+      const response = await approver(
+        { toolCall, tool, risk, paths: getToolCallPaths(toolCall), preview },
+        signal,
+      );
+
+      if (!response.approved) {
+        return toolError(
+          `The user denied this tool call${response.reason ? `: ${response.reason}` : "."}`,
+        );
+      }
+      if (response.args) {
+        toolCall.args = response.args;
+      }
+    },
+  };
+}
+
+function matchName(pattern: string, name: string): boolean {
+  return (
+    pattern.includes("*") &&
+    new RegExp(
+      `^${pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*")}$`,
+    ).test(name)
+  );
+}
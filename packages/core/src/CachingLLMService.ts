@@ -0,0 +1,224 @@
+import { createHash, randomUUID } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { LLMService } from "./LLMService.ts";
+import { Message } from "./Message.ts";
+import { LLMRequest, MockLLMService, mockReplyFrom } from "./MockLLMService.ts";
+import { describeRequest } from "./RecordingLLMService.ts";
+import { deserializeMessage, serializeMessage } from "./Session.ts";
+import type { SerializedMessage } from "./Session.ts";
+import { StreamablePromise } from "./StreamablePromise.ts";
+import { emptyUsage } from "./Usage.ts";
+
+/**
+ * A reply in the cache
+ */
+export interface CachedReply {
+  reply: SerializedMessage;
+  // the reply's text as it streamed
+  chunks?: string[];
+  // milliseconds since the epoch, never expires when undefined
+  expiresAt?: number;
+}
+
+/**
+ * Stores replies by request key
+ */
+export interface ResponseCache {
+  // undefined when missing or expired
+  get(key: string): Promise<CachedReply | undefined>;
+  set(key: string, entry: CachedReply): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Keeps replies in memory, dropping the least recently used beyond maxEntries
+ */
+export class MemoryResponseCache implements ResponseCache {
+  protected entries = new Map<string, CachedReply>();
+
+  constructor(protected maxEntries = 1000) {}
+
+  public async get(key: string): Promise<CachedReply | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (isExpired(entry)) return undefined;
+    // maps iterate in insertion order, so this makes it the most recently used
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  public async set(key: string, entry: CachedReply): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Stores each reply as a JSON file in a directory, so the cache outlives the process
+ */
+export class FileResponseCache implements ResponseCache {
+  constructor(protected directory: string) {}
+
+  public async get(key: string): Promise<CachedReply | undefined> {
+    let entry: CachedReply;
+    try {
+      entry = JSON.parse(await fs.readFile(this.file(key), "utf-8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+
+    if (isExpired(entry)) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  public async set(key: string, entry: CachedReply): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // write then rename so a concurrent get never reads half a reply
+    const file = this.file(key);
+    const temporary = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry));
+    await fs.rename(temporary, file);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this.file(key), { force: true });
+  }
+
+  public async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  protected file(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+function isExpired(entry: CachedReply): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+/**
+ * Wraps a service to answer repeated requests from a cache instead of the provider.
+ * Requests match on a hash of model, messages, tools and settings. Cached replies
+ * stream in the chunks they first arrived in, and report no usage since nothing was sent.
+ */
+export class CachingLLMService extends LLMService {
+  constructor(
+    protected service: LLMService,
+    public readonly cache: ResponseCache = new MemoryResponseCache(),
+    // milliseconds a reply is kept, forever when undefined
+    protected ttl?: number,
+  ) {
+    super();
+  }
+
+  _send(params: LLMRequest): StreamablePromise<Message> {
+    const key = cacheKey(params);
+
+    const streamablePromise = new StreamablePromise<Message>(
+      (resolve, reject) => {
+        this.cache
+          .get(key)
+          .catch((error) => {
+            // a broken cache shouldn't stop the request
+            this.logger.warn("Failed to read cached reply", {
+              error: error.message,
+            });
+            return undefined;
+          })
+          .then(async (cached) => {
+            const source = cached
+              ? this.replay(cached, params)
+              : this.service.send(params);
+            const chunks: string[] = [];
+            source.on("chunk", (chunk: string) => chunks.push(chunk));
+
+            for (const event of [
+              "chunk",
+              "reasoning",
+              "toolCallStart",
+              "toolCallArgsDelta",
+              "toolCall",
+              "complete",
+            ]) {
+              source.on(event, (...args) =>
+                streamablePromise.emit(event, ...args),
+              );
+            }
+            source.on("error", (error) => {
+              // an unheard "error" event would throw
+              if (streamablePromise.listenerCount("error")) {
+                streamablePromise.emit("error", error);
+              }
+            });
+
+            // failures aren't cached, the caller gets the error
+            const reply = await source;
+            // stored before resolving, so the next identical request finds it
+            if (!cached) await this.store(key, reply, chunks);
+            return reply;
+          })
+          .then(resolve, reject);
+      },
+    );
+
+    return streamablePromise;
+  }
+
+  protected replay(
+    cached: CachedReply,
+    params: LLMRequest,
+  ): StreamablePromise<Message> {
+    this.logger.debug("Replaying cached reply", { model: params.model });
+    const message = deserializeMessage(cached.reply);
+    message.usage = emptyUsage();
+    // the cached reply already has the parsed tool calls
+    return new MockLLMService([mockReplyFrom(message, cached.chunks)]).send({
+      ...params,
+      parseToolCalls: false,
+    });
+  }
+
+  protected async store(key: string, reply: Message, chunks: string[]) {
+    try {
+      await this.cache.set(key, {
+        reply: serializeMessage(reply),
+        chunks,
+        expiresAt: this.ttl === undefined ? undefined : Date.now() + this.ttl,
+      });
+    } catch (error: any) {
+      this.logger.warn("Failed to cache reply", { error: error.message });
+    }
+  }
+}
+
+/**
+ * The cache key of a request, a hash of what describeRequest keeps
+ */
+export function cacheKey(request: LLMRequest): string {
+  return createHash("sha256")
+    .update(JSON.stringify(describeRequest(request)))
+    .digest("hex");
+}
@@ -0,0 +1,97 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export interface TextPart {
+  type: "text";
+  text: string;
+}
+
+/**
+ * An image, either embedded as base64 data or read from a file when the message is sent
+ */
+export interface ImagePart {
+  type: "image";
+  mimeType: string;
+  data?: string;
+  path?: string;
+  // how closely vision models look at the image, where supported
+  detail?: "low" | "high" | "auto";
+}
+
+/**
+ * A reference to a file, read when the message is sent. Text files are
+ * inlined as text, other files are sent as documents where supported.
+ */
+export interface FilePart {
+  type: "file";
+  path: string;
+  mimeType: string;
+}
+
+export type ContentPart = TextPart | ImagePart | FilePart;
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+};
+
+export function mimeTypeFromPath(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? "text/plain";
+}
+
+export function isImagePath(filePath: string): boolean {
+  return mimeTypeFromPath(filePath).startsWith("image/");
+}
+
+/**
+ * Read an image file into an image part, so the message doesn't depend on the file later
+ */
+export function imageFromFile(
+  filePath: string,
+  detail?: ImagePart["detail"],
+): ImagePart {
+  return {
+    type: "image",
+    mimeType: mimeTypeFromPath(filePath),
+    data: fs.readFileSync(filePath).toString("base64"),
+    path: filePath,
+    detail,
+  };
+}
+
+export function fileReference(filePath: string): FilePart {
+  return { type: "file", path: filePath, mimeType: mimeTypeFromPath(filePath) };
+}
+
+/**
+ * The base64 data of an image or file part, reading the file if it isn't embedded
+ */
+export function readPartData(part: ImagePart | FilePart): string {
+  if (part.type === "image" && part.data !== undefined) {
+    return part.data;
+  }
+  return fs.readFileSync(part.path!).toString("base64");
+}
+
+/**
+ * The text of a list of parts. Files and images are represented by a short placeholder.
+ */
+export function partsToText(parts: ContentPart[]): string {
+  return parts
+    .map((part) => {
+      switch (part.type) {
+        case "text":
+          return part.text;
+        case "image":
+          return `[ Image${part.path ? `: ${part.path}` : ""} ]`;
+        case "file":
+          return `[ File: ${part.path} ]`;
+      }
+    })
+    .join("\n");
+}
@@ -0,0 +1,272 @@
+import { Message } from "./Message.ts";
+import { ToolMessage } from "./ToolMessage.ts";
+import { estimateTokenizer, Tokenizer } from "./Tokenizer.ts";
+import type { ModelConfig } from "./Agent.ts";
+import { calculateCost } from "./Usage.ts";
+import type { UsageTracker } from "./Usage.ts";
+
+export interface ContextBudget {
+  // total context window of the model, in tokens
+  contextSize: number;
+  // tokens to leave free for the reply and tool definitions
+  reserve: number;
+  // the model's tokenizer, overrides the context manager's default
+  tokenizer?: Tokenizer;
+  signal?: AbortSignal;
+  // records the usage of requests the context manager makes, e.g. for summaries
+  usage?: UsageTracker;
+}
+
+/**
+ * Decides which messages are sent to the model so the request fits in its context window
+ */
+export interface ContextManager {
+  fit(messages: Message[], budget: ContextBudget): Promise<Message[]>;
+  // forget what was kept about earlier messages, when the history is cleared
+  reset?(): void;
+}
+
+/**
+ * Fits messages into the context window in three steps, stopping as soon as they fit:
+ * 1. trims the content of older tool results
+ * 2. summarizes older turns with the summarizer model, if one is configured
+ * 3. drops the oldest turns
+ * System messages and pinned messages are never trimmed, summarized or dropped.
+ */
+export class SummarizingContextManager implements ContextManager {
+  protected summarizer?: ModelConfig;
+  protected keepRecent: number;
+  protected tokenizer: Tokenizer;
+
+  // summaries of earlier turns, reused on every request so each turn is only summarized once
+  protected summaries: { covered: Set<Message>; summary: Message }[] = [];
+  // trimmed copies of tool results, mapped to the history messages they replace
+  protected trimmed = new WeakMap<Message, Message>();
+
+  constructor(
+    options: {
+      // model used to summarize older turns, usually a cheaper one
+      summarizer?: ModelConfig;
+      // number of most recent messages that are always kept as they are
+      keepRecent?: number;
+      tokenizer?: Tokenizer;
+    } = {},
+  ) {
+    this.summarizer = options.summarizer;
+    this.keepRecent = options.keepRecent ?? 6;
+    this.tokenizer = options.tokenizer ?? estimateTokenizer;
+  }
+
+  public async fit(
+    messages: Message[],
+    budget: ContextBudget,
+  ): Promise<Message[]> {
+    const limit = budget.contextSize - budget.reserve;
+    const tokenizer = budget.tokenizer ?? this.tokenizer;
+    let fitted = this.applySummaries(messages);
+
+    if (this.count(fitted, tokenizer) <= limit) return fitted;
+
+    fitted = this.trimToolResults(fitted, tokenizer);
+    if (this.count(fitted, tokenizer) <= limit) return fitted;
+
+    if (this.summarizer) {
+      fitted = this.trimToolResults(
+        await this.summarize(fitted, budget),
+        tokenizer,
+      );
+      if (this.count(fitted, tokenizer) <= limit) return fitted;
+    }
+
+    return this.dropOldest(fitted, limit, tokenizer);
+  }
+
+  /**
+   * Count the tokens of a list of messages, including tool call arguments
+   */
+  public count(
+    messages: Message[],
+    tokenizer: Tokenizer = this.tokenizer,
+  ): number {
+    return messages.reduce((total, message) => {
+      const toolCalls = message.toolCalls?.length
+        ? JSON.stringify(
+            message.toolCalls.map(({ name, args }) => ({ name, args })),
+          )
+        : "";
+      // a few tokens of overhead per message for role and separators
+      return (
+        total +
+        tokenizer.count(message.content) +
+        tokenizer.count(toolCalls) +
+        4
+      );
+    }, 0);
+  }
+
+  /**
+   * Forget all summaries, e.g. when the history is cleared
+   */
+  public reset(): void {
+    this.summaries = [];
+  }
+
+  protected isProtected(message: Message): boolean {
+    return (
+      (message.role === "system" && !this.isSummary(message)) ||
+      !!message.pinned
+    );
+  }
+
+  protected isSummary(message: Message): boolean {
+    return this.summaries.some(({ summary }) => summary === message);
+  }
+
+  /**
+   * Index of the first message that is kept as-is. Never splits a tool call from its results.
+   */
+  protected recentStart(messages: Message[]): number {
+    let start = Math.max(0, messages.length - this.keepRecent);
+    while (start > 0 && messages[start]!.role === "tool") {
+      start--;
+    }
+    return start;
+  }
+
+  protected applySummaries(messages: Message[]): Message[] {
+    let result = messages;
+    for (const { covered, summary } of this.summaries) {
+      const index = result.findIndex((message) => covered.has(message));
+      if (index === -1) continue;
+
+      result = result.filter((message) => !covered.has(message));
+      result.splice(index, 0, summary);
+    }
+    return result;
+  }
+
+  protected trimToolResults(
+    messages: Message[],
+    tokenizer: Tokenizer,
+  ): Message[] {
+    const recentStart = this.recentStart(messages);
+    return messages.map((message, index) => {
+      if (
+        index >= recentStart ||
+        !(message instanceof ToolMessage) ||
+        message.pinned
+      ) {
+        return message;
+      }
+
+      const tokens = tokenizer.count(message.content);
+      if (tokens < 100) return message;
+
+      const trimmed = new ToolMessage(
+        `[ Tool result trimmed to save context (${tokens} tokens). Call the tool again if you need it. ]`,
+        message.toolCallId,
+        message.result,
+      );
+      this.trimmed.set(trimmed, message);
+      return trimmed;
+    });
+  }
+
+  protected async summarize(
+    messages: Message[],
+    { signal, usage }: ContextBudget,
+  ): Promise<Message[]> {
+    const recentStart = this.recentStart(messages);
+    const older = messages
+      .slice(0, recentStart)
+      .filter((message) => !this.isProtected(message));
+
+    if (older.length < 2) return messages;
+
+    const reply = await this.summarizer!.service.send({
+      model: this.summarizer!.name,
+      messages: [
+        new Message(
+          "system",
+          "Summarize the following conversation between a user and an AI assistant. Keep every fact, decision, file path, open question and unfinished task that later turns may depend on. Be concise.",
+        ),
+        new Message("user", this.transcript(older)),
+      ],
+      temperature: 0,
+      streaming: false,
+      signal,
+    });
+    if (reply.usage) {
+      if (this.summarizer!.pricing) {
+        reply.usage.cost = calculateCost(reply.usage, this.summarizer!.pricing);
+      }
+      usage?.record(this.summarizer!.name, reply.usage);
+    }
+
+    const summary = new Message(
+      "system",
+      `Summary of the earlier conversation:\n${reply.content}`,
+    );
+
+    // the covered set includes any older summaries, so they are folded into this one
+    const covered = new Set(
+      older.map((message) => this.trimmed.get(message) ?? message),
+    );
+    for (const entry of this.summaries) {
+      if (covered.has(entry.summary)) {
+        entry.covered.forEach((message) => covered.add(message));
+      }
+    }
+    this.summaries = this.summaries.filter(
+      ({ summary }) => !covered.has(summary),
+    );
+    this.summaries.push({ covered, summary });
+
+    return this.applySummaries(
+      messages.map((message) => this.trimmed.get(message) ?? message),
+    );
+  }
+
+  protected transcript(messages: Message[]): string {
+    return messages
+      .map((message) => {
+        let text = `${message.role}: ${message.content}`;
+        for (const toolCall of message.toolCalls ?? []) {
+          text += `\n[ called ${toolCall.name} ${JSON.stringify(toolCall.args)} ]`;
+        }
+        return text.length > 2000 ? `${text.substring(0, 2000)}...` : text;
+      })
+      .join("\n\n");
+  }
+
+  protected dropOldest(
+    messages: Message[],
+    limit: number,
+    tokenizer: Tokenizer,
+  ): Message[] {
+    const result = [...messages];
+    let index = 0;
+
+    // always keep the latest message
+    while (this.count(result, tokenizer) > limit && index < result.length - 1) {
+      const message = result[index]!;
+      if (this.isProtected(message)) {
+        index++;
+        continue;
+      }
+
+      result.splice(index, 1);
+      // tool results can't be sent without the call that produced them
+      const ids = new Set(message.toolCalls?.map((toolCall) => toolCall.id));
+      while (
+        result[index] instanceof ToolMessage &&
+        (ids.has((result[index] as ToolMessage).toolCallId) ||
+          message.role === "tool")
+      ) {
+        result.splice(index, 1);
+      }
+    }
+
+    return result;
+  }
+}
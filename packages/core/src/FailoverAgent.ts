@@ -1,5 +1,7 @@
 import { Agent } from "./Agent.ts";
 import { Message } from "./Message.ts";
+import { AbortError } from "./AbortError.ts";
+import { isRateLimitError, isRetryableError } from "./RetryingLLMService.ts";
 import type { ModelConfig } from "./Agent.ts";
 
 interface ExtendedModelConfig extends ModelConfig {
@@ -7,12 +9,29 @@ interface ExtendedModelConfig extends ModelConfig {
   lastFailure?: Date;
 }
 
+/**
+ * Thrown when every model failed with an error another model might not have had
+ */
+export class ModelsExhaustedError extends Error {
+  public override readonly name = "ModelsExhaustedError";
+
+  constructor(public readonly lastError: any) {
+    super(
+      `All models exhausted. Last error: ${lastError?.message || "Unknown error"}`,
+    );
+  }
+}
+
 /**
  * Abstract base class for agents that failover when rate limits or other problems occur
  */
 export abstract class FailoverAgent extends Agent {
   protected models: ExtendedModelConfig[] = [];
   declare protected model: ExtendedModelConfig;
+  // how many times each model is tried for a message before giving up. A service
+  // that retries on its own, like RetryingLLMService, multiplies this: each try
+  // can send up to its maxRetries + 1 requests
+  protected failoverRounds = 3;
 
   constructor(modelConfigs: ModelConfig[]) {
     if (!modelConfigs.length) {
@@ -39,37 +58,24 @@ export abstract class FailoverAgent extends Agent {
     const index = (this.models.indexOf(this.model) + 1) % this.models.length;
     this.model = this.models[index]!;
 
-    console.log(`🔄 Rotated to model: ${this.model.name}`);
+    this.logger.info("Rotated to the next model", { model: this.model.name });
   }
 
   /**
    * Check if an error indicates a rate limit or quota issue
    */
   protected isRateLimitError(error: any): boolean {
-    if (!error) return false;
-
-    const errorMessage = error.message?.toLowerCase() || "";
-    const errorCode = error.status || error.code;
-    // HTTP 429 Too Many Requests
-    if (errorCode === 429) return true;
-
-    console.log({ errorCode });
-    console.log(error);
-
-    // Common rate limit error messages
-    const rateLimitIndicators = [
-      "rate limit",
-      "quota exceeded",
-      "too many requests",
-      "rate_limit_exceeded",
-      "quota_exceeded",
-      "requests per minute",
-      "rpm limit",
-    ];
-
-    return rateLimitIndicators.some((indicator) =>
-      errorMessage.includes(indicator),
-    );
+    return isRateLimitError(error);
+  }
+
+  /**
+   * Check if another model may succeed where this one failed: rate limits,
+   * overloaded servers and dropped connections, once the service stopped retrying
+   */
+  protected shouldRotate(error: any): boolean {
+    // e.g. from a sub-agent, its message would look like a rate limit
+    if (error instanceof ModelsExhaustedError) return false;
+    return this.isRateLimitError(error) || isRetryableError(error);
   }
 
   /**
@@ -78,36 +84,55 @@ export abstract class FailoverAgent extends Agent {
   protected recordModelFailure(error: any): void {
     this.model.failureCount++;
     this.model.lastFailure = new Date();
-    console.log(`❌ Model ${this.model.name} failed: ${error.message}`);
+    this.logger.warn("Model failed", {
+      model: this.model.name,
+      error: error.message,
+    });
   }
 
   /**
-   * Override send method to implement model rotation on failures
+   * Override sendMessage to implement model rotation on failures. A failure in a
+   * tool round fails over the whole send, which then continues from the history:
+   * the reply holds what the model said after the last tool results.
    */
-  public override async send(
+  protected override async sendMessage(
     message?: Message,
     streaming: boolean = true,
+    signal?: AbortSignal,
   ): Promise<Message> {
+    // tool rounds come back through here, their failures are retried below
+    if (this.run) {
+      return super.sendMessage(message, streaming, signal);
+    }
+
+    // added once, every attempt continues the conversation from the history
+    if (message) {
+      this.history.push(message);
+    }
+
     let lastError: any;
     let attempts = 0;
 
-    while (attempts < 3 * this.models.length) {
+    while (attempts < this.failoverRounds * this.models.length) {
       try {
-        // Call the parent send method with the same interface
-        const result = await super.send(message, streaming);
+        const result = await super.sendMessage(undefined, streaming, signal);
 
         // Success! Reset failure count for this model
         this.model.failureCount = 0;
         return result;
       } catch (error) {
+        if (error instanceof AbortError) {
+          throw error;
+        }
+
         lastError = error;
         this.recordModelFailure(error);
 
-        // Only rotate on rate limit errors, not all errors
-        if (this.isRateLimitError(error)) {
+        // Only rotate when another model may succeed, not on all errors
+        if (this.shouldRotate(error)) {
           this.rotateToNextModel();
         } else {
-          // For non-rate-limit errors, don't rotate, just throw
+          // e.g. a bad request, which would fail on every model
           throw error;
         }
       }
@@ -115,9 +140,7 @@ export abstract class FailoverAgent extends Agent {
       attempts++;
     }
 
-    // If we get here, all models failed with rate limits
-    throw new Error(
-      `All models exhausted. Last error: ${lastError?.message || "Unknown error"}`,
-    );
+    // If we get here, all models failed with retryable errors
+    throw new ModelsExhaustedError(lastError);
   }
 }
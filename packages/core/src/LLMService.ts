@@ -1,13 +1,43 @@
 import { Message } from "./Message.ts";
+import { ToolMessage } from "./ToolMessage.ts";
 import { Tool } from "./Tool.ts";
-import { ToolCall } from "./ToolCall.ts";
 import { StreamablePromise } from "./StreamablePromise.ts";
+import { estimateTokenizer } from "./Tokenizer.ts";
+import type { Tokenizer } from "./Tokenizer.ts";
+import type { Usage } from "./Usage.ts";
+import { getLogger, Logger } from "./Logger.ts";
+import { PartialJsonParser } from "./PartialJsonParser.ts";
+import { toolError } from "./ToolResult.ts";
+import {
+  TOOL_CALL_OPENERS,
+  ToolCallParseFailure,
+  ToolCallParseResult,
+} from "./ToolCallParser.ts";
+import { jsonTagDialect } from "./ToolCallDialect.ts";
+import type { ToolCallDialect } from "./ToolCallDialect.ts";
 import { EventEmitter } from "node:events";
 
+// the start of a <ToolCall> body up to its arguments, once the tool name is complete
+const TOOL_CALL_HEAD =
+  /^\{\s*"(?:tool|name)"\s*:\s*"((?:[^"\\]|\\.)+)"\s*,\s*"(?:parameters|args|arguments)"\s*:\s*/;
+
+// how tool calls that start with each of the TOOL_CALL_OPENERS end, if they have a closing tag
+const TOOL_CALL_CLOSERS: Record<string, RegExp> = {
+  "<toolcall>": /<\/tool_?call>/i,
+  "<tool_call>": /<\/tool_?call>/i,
+  "<function=": /<\/function>/i,
+  "```tool_code": /```/,
+};
+
+// the beginning of </ToolCall> at the end of a chunk
+const PARTIAL_CLOSING_TAG = /<(\/(T(o(o(l(_?(C(a(l(l)?)?)?)?)?)?)?)?)?)?$/i;
+
 /**
  * Interface for LLM service providers (OpenAI, Anthropic, ollama, etc.)
  */
 export abstract class LLMService {
+  public logger: Logger = getLogger();
+
   /**
    * Send a message to the LLM and get a streamable promise
    * Can be awaited for final result or listened to for streaming events
@@ -19,16 +49,25 @@ export abstract class LLMService {
     temperature?: number;
     maxTokens?: number;
     parseToolCalls?: boolean;
+    // how tools are described and calls written when parseToolCalls is set
+    toolCallDialect?: ToolCallDialect;
     streaming?: boolean;
+    tokenizer?: Tokenizer;
+    signal?: AbortSignal;
   }): StreamablePromise<Message> {
     // insert tool instructions and translate historical tool calls
     const processedParams = { ...params };
-    if (params.parseToolCalls && params.tools) {
-      processedParams.messages = [
-        this.generateToolsSystemMessage(params.tools),
-        ...params.messages,
-      ];
-      delete processedParams.tools;
+    if (params.parseToolCalls) {
+      processedParams.messages = this.translateToolHistory(
+        params.messages,
+        params.toolCallDialect,
+      );
+      if (params.tools) {
+        processedParams.messages.unshift(
+          this.generateToolsSystemMessage(params.tools, params.toolCallDialect),
+        );
+        delete processedParams.tools;
+      }
     }
 
     // Delegate to the concrete implementation
@@ -42,15 +81,44 @@ export abstract class LLMService {
     temperature?: number;
     maxTokens?: number;
     parseToolCalls?: boolean;
+    // how tools are described and calls written when parseToolCalls is set
+    toolCallDialect?: ToolCallDialect;
     streaming?: boolean;
+    tokenizer?: Tokenizer;
+    signal?: AbortSignal;
   }): StreamablePromise<Message>;
 
+  /**
+   * Estimate usage for providers that don't report it
+   */
+  protected estimateUsage(
+    messages: Message[],
+    reply: Message,
+    tokenizer: Tokenizer = estimateTokenizer,
+  ): Usage {
+    const promptTokens = tokenizer.count(
+      messages.map((message) => message.content).join("\n"),
+    );
+    const completionTokens = tokenizer.count(
+      reply.content +
+        (reply.toolCalls?.length ? JSON.stringify(reply.toolCalls) : ""),
+    );
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      estimated: true,
+    };
+  }
+
   /**
    * Process streaming response with tool parsing when parseToolCalls is enabled
    */
   protected handleStreamingWithToolParsing(
     sourceEmitter: EventEmitter,
     parseToolCalls: boolean,
+    dialect: ToolCallDialect = jsonTagDialect,
   ): EventEmitter {
     if (!parseToolCalls) {
       return sourceEmitter;
@@ -59,32 +127,120 @@ export abstract class LLMService {
     const resultEmitter = new EventEmitter();
     let toolBuffer = "";
     let fullContent = "";
-    sourceEmitter.on("chunk", (chunk: string) => {
-      fullContent += chunk;
+    // the tool call being written, streamed as start and argument delta events
+    let streamed: { id: string; parser: PartialJsonParser } | undefined;
+    const streamedCalls: { id: string; name: string }[] = [];
+
+    const streamToolCall = (complete: boolean) => {
+      const body = toolBuffer.match(
+        /<Tool_?Call>\s*(.*?)(?:<\/Tool_?Call>|$)/is,
+      )?.[1];
+      const head = body?.match(TOOL_CALL_HEAD);
+      if (!head) return;
 
-      if (toolBuffer || chunk.match(/\s*</)) {
-        toolBuffer += chunk;
+      if (!streamed) {
+        let name: string;
+        try {
+          name = JSON.parse(`"${head[1]}"`);
+        } catch {
+          // a name with a broken escape isn't announced, the call is still parsed at the end
+          return;
+        }
+        streamed = {
+          id: `${name}-${streamedCalls.length}-${Date.now()}`,
+          parser: new PartialJsonParser(),
+        };
+        streamedCalls.push({ id: streamed.id, name });
+        resultEmitter.emit("toolCallStart", streamed.id, name);
+      }
 
+      // the arguments end before the closing brace of the whole call, which is
+      // held back until the call is complete
+      const args = body!.slice(head[0].length);
+      const available = complete
+        ? args.trimEnd().replace(/}$/, "")
+        : args.replace(PARTIAL_CLOSING_TAG, "").replace(/[\s}]*$/, "");
+      const delta = available.slice(streamed.parser.text.length);
+      if (delta) {
+        streamed.parser.push(delta);
+        resultEmitter.emit(
+          "toolCallArgsDelta",
+          streamed.id,
+          delta,
+          streamed.parser,
+        );
+      }
+      if (complete) {
+        streamed = undefined;
+      }
+    };
+
+    const handleChunk = (chunk: string) => {
+      if (!toolBuffer) {
+        // text before a possible tool call can be shown right away
+        const markerStart = chunk.search(/[<[`]/);
+        if (markerStart === -1) {
+          resultEmitter.emit("chunk", chunk);
+          return;
+        }
+        if (markerStart > 0) {
+          resultEmitter.emit("chunk", chunk.substring(0, markerStart));
+        }
+        chunk = chunk.substring(markerStart);
+      }
+      toolBuffer += chunk;
+
+      const buffered = toolBuffer.toLowerCase();
+      const opener = TOOL_CALL_OPENERS.find((marker) =>
+        buffered.startsWith(marker.toLowerCase()),
+      );
+      if (!opener) {
         if (
-          !toolBuffer.match(
-            /^\s*(<T?o?o?$|<Tool_?$|<Tool_?Ca?l?l?$|<Tool_?Call>)/i,
+          TOOL_CALL_OPENERS.some((marker) =>
+            marker.toLowerCase().startsWith(buffered),
           )
         ) {
-          // Not a tool call, emit as regular content
-          resultEmitter.emit("chunk", toolBuffer);
-          toolBuffer = "";
-        } else {
-          // Check if we have a complete tool call to skip
-          if (toolBuffer.match(/<Tool_?Call>.*?<\/Tool_?Call>/is)) {
-            // Complete tool call found, skip it (don't emit)
-            toolBuffer = "";
-          }
-          // Otherwise keep buffering until we know what it is
+          return; // keep buffering until we know what it is
         }
-      } else {
-        // Regular content, emit immediately
-        resultEmitter.emit("chunk", chunk);
+
+        // Not a tool call, emit as regular content up to the next marker
+        const nextMarker = toolBuffer.substring(1).search(/[<[`]/);
+        const text =
+          nextMarker === -1
+            ? toolBuffer
+            : toolBuffer.substring(0, nextMarker + 1);
+        const rest = toolBuffer.substring(text.length);
+        resultEmitter.emit("chunk", text);
+        toolBuffer = "";
+        if (rest) handleChunk(rest);
+        return;
+      }
+
+      // calls in formats without a closing tag are hidden up to the end of the reply
+      const closer = TOOL_CALL_CLOSERS[opener.toLowerCase()];
+      const complete =
+        closer && toolBuffer.substring(opener.length).match(closer);
+      const isToolCallTag = /^<tool_?call>$/i.test(opener);
+      if (complete) {
+        // Complete tool call found, skip it (don't emit)
+        if (isToolCallTag) streamToolCall(true);
+        const rest = toolBuffer.substring(
+          opener.length + complete.index! + complete[0].length,
+        );
+        toolBuffer = "";
+        if (rest) handleChunk(rest);
+      } else if (isToolCallTag) {
+        streamToolCall(false);
       }
+    };
+
+    sourceEmitter.on("chunk", (chunk: string) => {
+      fullContent += chunk;
+      handleChunk(chunk);
+    });
+
+    sourceEmitter.on("reasoning", (chunk: string) => {
+      resultEmitter.emit("reasoning", chunk);
     });
 
     sourceEmitter.on("error", (error) => {
@@ -93,11 +249,30 @@ export abstract class LLMService {
 
     sourceEmitter.on("complete", (message: Message) => {
       // Process any remaining tool buffer as regular content if it's not a tool call
-      if (toolBuffer && !toolBuffer.match(/<Tool_?Call>/i)) {
+      const buffered = toolBuffer.toLowerCase();
+      if (
+        toolBuffer &&
+        !TOOL_CALL_OPENERS.some((marker) =>
+          buffered.startsWith(marker.toLowerCase()),
+        )
+      ) {
         resultEmitter.emit("chunk", toolBuffer);
       }
 
-      this.processMessageToolCalls(message, parseToolCalls);
+      this.processMessageToolCalls(message, parseToolCalls, dialect);
+      // keep the ids the start events announced, when every streamed call
+      // was parsed and they can't be attached to the wrong ones
+      const toolCalls = message.toolCalls ?? [];
+      if (
+        toolCalls.length === streamedCalls.length &&
+        toolCalls.every(
+          (toolCall, i) => toolCall.name === streamedCalls[i]!.name,
+        )
+      ) {
+        toolCalls.forEach((toolCall, i) => {
+          toolCall.id = streamedCalls[i]!.id;
+        });
+      }
 
       // Emit any found tool calls
       if (message.toolCalls?.length) {
@@ -115,112 +290,131 @@ export abstract class LLMService {
   /**
    * Generates a system message explaining the available tools and how to invoke them
    */
-  protected generateToolsSystemMessage(tools: Tool[]) {
-    let message = "You have access to the following tools:\n\n";
+  protected generateToolsSystemMessage(
+    tools: Tool[],
+    dialect: ToolCallDialect = jsonTagDialect,
+  ) {
+    return new Message("system", dialect.renderTools(tools));
+  }
+
+  /**
+   * Rewrite earlier tool calls as text in the dialect and their results as user messages,
+   * for providers that only accept tool messages with native tool calling
+   */
+  protected translateToolHistory(
+    messages: Message[],
+    dialect: ToolCallDialect = jsonTagDialect,
+  ): Message[] {
+    const translated: Message[] = [];
+    const toolNames = new Map<string, string>();
+    let results: ToolMessage[] = [];
 
-    for (const tool of tools) {
-      message += `Tool: ${tool.name}\n`;
-      if (tool.description) {
-        message += `Description: ${tool.description}\n`;
+    // the results of one reply's tool calls go into a single message
+    const flushResults = () => {
+      if (!results.length) return;
+      const text = results
+        .map((result) =>
+          dialect.formatToolResult(
+            toolNames.get(result.toolCallId) ?? "unknown",
+            result.content,
+          ),
+        )
+        .join("\n\n");
+      const attachments = results.flatMap(
+        (result) => result.result?.parts ?? [],
+      );
+      translated.push(
+        new Message(
+          "user",
+          attachments.length ? [{ type: "text", text }, ...attachments] : text,
+        ),
+      );
+      results = [];
+    };
+
+    for (const message of messages) {
+      if (message instanceof ToolMessage) {
+        results.push(message);
+        continue;
       }
+      flushResults();
 
-      if (tool.parameters) {
-        message += "Parameters:\n";
-        const properties = tool.parameters.properties as Record<string, any>;
-        const required = (tool.parameters.required as string[]) || [];
-
-        for (const [paramName, paramSchema] of Object.entries(properties)) {
-          const isRequired = required.includes(paramName) ? " (required)" : "";
-          message += `- ${paramName}${isRequired}: ${paramSchema.type}`;
-          if (paramSchema.description) {
-            message += ` - ${paramSchema.description}`;
-          }
-          message += "\n";
+      if (message.role === "assistant" && message.toolCalls?.length) {
+        for (const toolCall of message.toolCalls) {
+          toolNames.set(toolCall.id, toolCall.name);
         }
+        const calls = message.toolCalls.map((toolCall) =>
+          dialect.formatToolCall(toolCall),
+        );
+        translated.push(
+          new Message(
+            "assistant",
+            [message.content, ...calls].filter(Boolean).join("\n\n"),
+          ),
+        );
+      } else {
+        translated.push(message);
       }
-
-      message += "\n";
     }
+    flushResults();
 
-    message += `To use a tool, respond with the following format:
-
-<ToolCall>
-{"tool": "ToolName", "parameters": {"param1": "value1", "param2": "value2"}}
-</ToolCall>
-
-CRITICAL: Always use valid JSON in the <ToolCall> tag. Make sure to match brackets! each "{" must have a matching "}"
-`;
-
-    return new Message("system", message);
+    return translated;
   }
 
-  protected processMessageToolCalls(message: Message, parseToolCalls: boolean) {
+  protected processMessageToolCalls(
+    message: Message,
+    parseToolCalls: boolean,
+    dialect: ToolCallDialect = jsonTagDialect,
+  ) {
     if (parseToolCalls) {
-      message.toolCalls = this.parseToolCallsFromText(message.content);
-      message.content = message.content.replace(
-        /<Tool_?Call>.*<\/Tool_?Call>/gis,
-        "",
+      const { toolCalls, failures, content } = this.parseToolCallsFromText(
+        message.content,
+        dialect,
       );
+      message.toolCalls = toolCalls;
+      message.content = content;
+
+      // answered right away, so the model learns what was wrong and can try again
+      for (const failure of failures) {
+        this.logger.warn("Failed to parse tool call", {
+          error: failure.error,
+          content: failure.raw,
+        });
+        failure.toolCall.result = toolError(
+          this.toolCallCorrection(failure, dialect),
+        );
+      }
     }
 
     return message;
   }
 
   /**
-   * Parse tool calls from text content using <ToolCall> tags
+   * Find tool calls written as text in the reply
    */
-  protected parseToolCallsFromText(text: string): ToolCall[] {
-    const toolCalls: ToolCall[] = [];
-    const jsonMatches = text.matchAll(
-      /<Tool_?Call>\s*(\{.*?})\s*<\/Tool_?Call>/gis,
-    );
-    for (const match of jsonMatches) {
-      try {
-        const json = JSON.parse(match[1]!); // Use capture group for just the JSON content
-        const toolCallsArray = Array.isArray(json) ? json : [json];
-        for (const [i, tc] of toolCallsArray.entries()) {
-          const name = tc.name ?? tc.tool;
-          const args = tc.parameters ?? tc.args ?? tc.arguments;
-          const toolCall = new ToolCall(
-            tc.id ?? `${name}-${i}-${Date.now()}`,
-            name,
-            typeof args === "string" ? JSON.parse(args) : args,
-          );
-          toolCalls.push(toolCall);
-        }
-      } catch (e: any) {
-        console.error("Failed to parse tool call (JSON):", e.message);
-        console.log("JSON content:", match[1]);
-      }
-    }
-
-    // Regex for all <tool_call> variants
-    const xmlMatches = text.matchAll(
-      /<Tool_?Call>\s*(?:<Tool_?Name>)?(.+?)(?:<\/Tool_?Name>)?\s*(<.+>.+<\/.*>)\s*<\/Tool_?Call>/gis,
-    );
-
-    for (const match of xmlMatches) {
-      try {
-        const name = match[1]!;
-        const paramsString = match[2]!;
-        const params: { [key: string]: any } = {};
-
-        const paramMatches = paramsString.matchAll(
-          /<(?:parameter name="|\w*?key>)(.+?)(?:<\/\w*?key>\s*<\w*?value>|">)(.+?)<\/(?:parameter|\w*?value)>/gis,
-        );
-        for (const paramMatch of paramMatches) {
-          params[paramMatch[1]!] = paramMatch[2]!;
-        }
+  protected parseToolCallsFromText(
+    text: string,
+    dialect: ToolCallDialect = jsonTagDialect,
+  ): ToolCallParseResult {
+    return dialect.parse(text);
+  }
 
-        const toolCall = new ToolCall(`${name}-${Date.now()}`, name, params);
-        toolCalls.push(toolCall);
-      } catch (e: any) {
-        console.error("Failed to parse tool call:", e.message);
-        console.log("XML content:", match[0]);
-        // Continue processing other matches
-      }
-    }
+  /**
+   * The result the model gets for a tool call that couldn't be parsed
+   */
+  protected toolCallCorrection(
+    failure: ToolCallParseFailure,
+    dialect: ToolCallDialect = jsonTagDialect,
+  ): string {
+    const example = dialect.formatToolCall({
+      name:
+        failure.toolCall.name !== "unknown"
+          ? failure.toolCall.name
+          : "ToolName",
+      args: { param1: "value1", param2: "value2" },
+    });
+    return `Your tool call could not be read (${failure.error}), so it was not run. Write it again in this format:
 
-    return toolCalls;
+${example}`;
   }
 }
@@ -0,0 +1,124 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Structured logger. Fields are key/value context for the message,
+ * e.g. `logger.warn("Model failed", { model, error })`.
+ */
+export interface Logger {
+  debug(message: string, fields?: Record<string, any>): void;
+  info(message: string, fields?: Record<string, any>): void;
+  warn(message: string, fields?: Record<string, any>): void;
+  error(message: string, fields?: Record<string, any>): void;
+}
+
+/**
+ * Writes log lines at or above a level to a stream, stderr by default so
+ * logs don't mix with output written to stdout
+ */
+export class ConsoleLogger implements Logger {
+  public level: LogLevel;
+  protected format: "text" | "json";
+  protected stream: NodeJS.WritableStream;
+
+  constructor(
+    options: {
+      level?: LogLevel;
+      // json writes one object per line, for log collectors
+      format?: "text" | "json";
+      stream?: NodeJS.WritableStream;
+    } = {},
+  ) {
+    this.level = options.level ?? "info";
+    this.format = options.format ?? "text";
+    this.stream = options.stream ?? process.stderr;
+  }
+
+  public debug(message: string, fields?: Record<string, any>): void {
+    this.log("debug", message, fields);
+  }
+
+  public info(message: string, fields?: Record<string, any>): void {
+    this.log("info", message, fields);
+  }
+
+  public warn(message: string, fields?: Record<string, any>): void {
+    this.log("warn", message, fields);
+  }
+
+  public error(message: string, fields?: Record<string, any>): void {
+    this.log("error", message, fields);
+  }
+
+  protected log(
+    level: LogLevel,
+    message: string,
+    fields: Record<string, any> = {},
+  ): void {
+    if (LOG_LEVELS[level] < LOG_LEVELS[this.level]) return;
+
+    const time = new Date().toISOString();
+    if (this.format === "json") {
+      this.stream.write(
+        `${JSON.stringify({ time, level, message, ...serializeFields(fields) })}\n`,
+      );
+      return;
+    }
+
+    const details = Object.entries(fields)
+      .map(
+        ([key, value]) =>
+          `${key}=${JSON.stringify(value instanceof Error ? value.message : value)}`,
+      )
+      .join(" ");
+    this.stream.write(
+      `${time} ${level.toUpperCase().padEnd(5)} ${message}${details ? ` ${details}` : ""}\n`,
+    );
+  }
+}
+
+/**
+ * Discards everything
+ */
+export const silentLogger: Logger = {
+  debug() {},
+  info() {},
+  warn() {},
+  error() {},
+};
+
+let defaultLogger: Logger = new ConsoleLogger({
+  level: (process.env.FRAIMWORK_LOG_LEVEL as LogLevel | undefined) ?? "warn",
+});
+
+/**
+ * The logger used by agents, services and tools that weren't given one
+ */
+export function getLogger(): Logger {
+  return defaultLogger;
+}
+
+/**
+ * Replace the default logger. Agents and services pick it up when they are created.
+ */
+export function setLogger(logger: Logger): void {
+  defaultLogger = logger;
+}
+
+// errors don't survive JSON.stringify, keep what's useful
+function serializeFields(fields: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [
+      key,
+      value instanceof Error
+        ? { name: value.name, message: value.message, stack: value.stack }
+        : value,
+    ]),
+  );
+}
@@ -1,9 +1,32 @@
 import { ToolCall } from "./ToolCall.ts";
+import { ContentPart, partsToText } from "./ContentPart.ts";
+import type { Usage } from "./Usage.ts";
 
 export class Message {
+  // the text of the message; for multi-part messages, the text of all parts
+  public content: string;
+  // the full content, when the message includes images or files
+  public parts?: ContentPart[];
+  // the model's reasoning before the reply, from models that report it separately
+  public reasoning?: string;
+  // opaque data the provider needs back with the message, e.g. signed thinking blocks
+  public providerData?: Record<string, any>;
+  // pinned messages are always sent, even when the context has to be shortened
+  public pinned?: boolean;
+  // tokens used to generate this message, set on replies from the LLM
+  public usage?: Usage;
+  public createdAt: Date = new Date();
+
   constructor(
     public role: "user" | "assistant" | "system" | "tool",
-    public content: string,
+    content: string | ContentPart[],
     public toolCalls?: ToolCall[],
-  ) {}
+  ) {
+    if (typeof content === "string") {
+      this.content = content;
+    } else {
+      this.parts = content;
+      this.content = partsToText(content);
+    }
+  }
 }
@@ -0,0 +1,233 @@
+import { EventEmitter } from "node:events";
+import { LLMService } from "./LLMService.ts";
+import { Message } from "./Message.ts";
+import { PartialJsonParser } from "./PartialJsonParser.ts";
+import { StreamablePromise } from "./StreamablePromise.ts";
+import { ToolCall } from "./ToolCall.ts";
+import type { ToolResult } from "./ToolResult.ts";
+import type { Usage } from "./Usage.ts";
+import { AbortError, throwIfAborted } from "./AbortError.ts";
+import { sleep } from "./utils.ts";
+
+/**
+ * A request as a service receives it
+ */
+export type LLMRequest = Parameters<LLMService["send"]>[0];
+
+/**
+ * A scripted reply. A plain string is a reply with just that content.
+ */
+export interface MockReply {
+  content?: string;
+  reasoning?: string;
+  toolCalls?: {
+    name: string;
+    args?: Record<string, any>;
+    id?: string;
+    // answered by the service, e.g. a call it couldn't parse
+    result?: ToolResult;
+  }[];
+  // the content streamed in these pieces, defaults to the whole content at once
+  chunks?: string[];
+  // milliseconds before each chunk, overrides the service's delay
+  delay?: number;
+  usage?: Usage;
+  // fail the request instead of replying
+  error?: Error | string;
+}
+
+/**
+ * A reply that plays back a message, streaming its content in the given chunks
+ */
+export function mockReplyFrom(message: Message, chunks?: string[]): MockReply {
+  return {
+    content: message.content,
+    reasoning: message.reasoning,
+    toolCalls: message.toolCalls,
+    chunks: chunks?.length ? chunks : undefined,
+    usage: message.usage,
+  };
+}
+
+export type MockResponder = (
+  request: LLMRequest,
+  index: number,
+) => MockReply | string;
+
+/**
+ * An LLMService that answers with scripted replies, for running agents offline.
+ * Replies are used in order, or come from a function of the request.
+ *
+ * ```ts
+ * const service = new MockLLMService([
+ *   { toolCalls: [{ name: "ReadFile", args: { path: "a.ts" } }] },
+ *   { content: "Done", chunks: ["Do", "ne"], delay: 10 },
+ * ]);
+ * ```
+ */
+export class MockLLMService extends LLMService {
+  // every request received, in order
+  public requests: LLMRequest[] = [];
+  protected replies: (MockReply | string)[] = [];
+  protected responder?: MockResponder;
+
+  constructor(
+    replies: (MockReply | string)[] | MockResponder = [],
+    // milliseconds before each streamed chunk
+    protected delay = 0,
+  ) {
+    super();
+    if (typeof replies === "function") {
+      this.responder = replies;
+    } else {
+      this.replies = [...replies];
+    }
+  }
+
+  /**
+   * Queue more replies
+   */
+  public reply(...replies: (MockReply | string)[]): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  _send(params: LLMRequest): StreamablePromise<Message> {
+    const index = this.requests.length;
+    this.requests.push(params);
+
+    const streamablePromise = new StreamablePromise<Message>(
+      (resolve, reject) => {
+        let reply: MockReply;
+        try {
+          reply = this.nextReply(params, index);
+        } catch (error) {
+          reject(error);
+          return;
+        }
+
+        // text tool calls in the content are parsed like a real service would,
+        // unless the reply scripts native tool calls
+        const parseToolCalls =
+          (params.parseToolCalls ?? false) && !reply.toolCalls?.length;
+        const source = new EventEmitter();
+        const emitter = params.streaming
+          ? this.handleStreamingWithToolParsing(
+              source,
+              parseToolCalls,
+              params.toolCallDialect,
+            )
+          : source;
+
+        for (const event of [
+          "chunk",
+          "reasoning",
+          "toolCallStart",
+          "toolCallArgsDelta",
+          "toolCall",
+        ]) {
+          emitter.on(event, (...args) =>
+            streamablePromise.emit(event, ...args),
+          );
+        }
+        emitter.on("error", (error) => {
+          // an unheard "error" event would throw
+          if (streamablePromise.listenerCount("error")) {
+            streamablePromise.emit("error", error);
+          }
+          reject(error);
+        });
+        emitter.on("complete", (message: Message) => {
+          if (!params.streaming) {
+            this.processMessageToolCalls(
+              message,
+              parseToolCalls,
+              params.toolCallDialect,
+            );
+          }
+          streamablePromise.emit("complete", message);
+          resolve(message);
+        });
+
+        this.play(reply, source, params)
+          .then((message) => source.emit("complete", message))
+          .catch((error) =>
+            source.emit(
+              "error",
+              params.signal?.aborted ? new AbortError() : error,
+            ),
+          );
+      },
+    );
+
+    return streamablePromise;
+  }
+
+  protected nextReply(request: LLMRequest, index: number): MockReply {
+    const reply = this.responder
+      ? this.responder(request, index)
+      : this.replies.shift();
+    if (reply === undefined) {
+      throw new Error(`MockLLMService has no reply for request ${index + 1}`);
+    }
+    return typeof reply === "string" ? { content: reply } : reply;
+  }
+
+  /**
+   * Emit the reply's events, waiting before each chunk when streaming
+   */
+  protected async play(
+    reply: MockReply,
+    emitter: EventEmitter,
+    request: LLMRequest,
+  ): Promise<Message> {
+    const content = reply.content ?? reply.chunks?.join("") ?? "";
+    const delay = reply.delay ?? this.delay;
+    const wait = async () => {
+      if (delay) await sleep(delay);
+      throwIfAborted(request.signal);
+    };
+
+    await wait();
+    if (reply.error) {
+      throw typeof reply.error === "string"
+        ? new Error(reply.error)
+        : reply.error;
+    }
+
+    const message = new Message("assistant", content);
+    message.reasoning = reply.reasoning;
+    message.toolCalls = reply.toolCalls?.map((call, i) => {
+      const toolCall = new ToolCall(
+        call.id ?? `${call.name}-${i}-mock`,
+        call.name,
+        call.args ?? {},
+      );
+      toolCall.result = call.result;
+      return toolCall;
+    });
+    message.usage =
+      reply.usage ?? this.estimateUsage(request.messages, message);
+
+    if (request.streaming) {
+      if (reply.reasoning) emitter.emit("reasoning", reply.reasoning);
+      for (const [i, chunk] of (reply.chunks ?? [content]).entries()) {
+        if (i > 0) await wait();
+        if (chunk) emitter.emit("chunk", chunk);
+      }
+      for (const toolCall of message.toolCalls ?? []) {
+        const args = JSON.stringify(toolCall.args);
+        emitter.emit("toolCallStart", toolCall.id, toolCall.name);
+        emitter.emit(
+          "toolCallArgsDelta",
+          toolCall.id,
+          args,
+          new PartialJsonParser().push(args),
+        );
+        emitter.emit("toolCall", toolCall);
+      }
+    }
+
+    return message;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Parses JSON as it streams in, e.g. tool call arguments. `value` is the
+ * best reading of the text so far: open strings, arrays and objects are
+ * closed, and a trailing key or unfinished literal is left out.
+ */
+export class PartialJsonParser {
+  protected buffer = "";
+  // parsing is only done when the value is read, and only once per length
+  protected cached?: { length: number; value: any };
+
+  public push(delta: string): this {
+    this.buffer += delta;
+    return this;
+  }
+
+  public get text(): string {
+    return this.buffer;
+  }
+
+  public get value(): any {
+    if (this.cached?.length !== this.buffer.length) {
+      this.cached = {
+        length: this.buffer.length,
+        value: parsePartialJson(this.buffer),
+      };
+    }
+    return this.cached.value;
+  }
+}
+
+/**
+ * Parse the beginning of a JSON document
+ * @returns the value so far, or undefined if nothing can be read yet
+ */
+export function parsePartialJson(text: string): any {
+  let candidate = text.trimEnd();
+
+  // each failed attempt drops the last token, a partial key, literal or dangling comma
+  while (candidate) {
+    const { closers, inString, escaped, lastTokenStart } = scanJson(candidate);
+    let closed = candidate;
+    if (inString) {
+      closed = `${escaped ? closed.slice(0, -1) : closed}"`;
+    }
+    try {
+      return JSON.parse(closed + closers);
+    } catch {
+      candidate = candidate.slice(0, lastTokenStart).trimEnd();
+    }
+  }
+  return undefined;
+}
+
+function scanJson(text: string) {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let lastTokenStart = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) continue;
+
+    if (char === '"') {
+      inString = true;
+      lastTokenStart = i;
+    } else if (char === "{" || char === "[") {
+      closers.push(char === "{" ? "}" : "]");
+      lastTokenStart = i;
+    } else if (char === "}" || char === "]") {
+      closers.pop();
+      lastTokenStart = i;
+    } else if (char === "," || char === ":") {
+      lastTokenStart = i;
+    } else if (!/[\w.+-]/.test(text[i - 1] ?? "")) {
+      // first character of a number or literal
+      lastTokenStart = i;
+    }
+  }
+
+  return {
+    closers: closers.reverse().join(""),
+    inString,
+    escaped,
+    lastTokenStart,
+  };
+}
@@ -0,0 +1,42 @@
+import { Message } from "./Message.ts";
+
+/**
+ * What happens to the reasoning ("thinking") of models that report it separately from their answer
+ */
+export interface ReasoningPolicy {
+  // keep reasoning on replies in the history and saved sessions, otherwise only the reply returned by send has it
+  keep: boolean;
+  // how interactive clients show reasoning while it streams: in full, as a one line placeholder, or not at all
+  display: "show" | "collapse" | "hide";
+  // include reasoning in API responses (reasoning_content in the server)
+  expose: boolean;
+}
+
+export const DEFAULT_REASONING_POLICY: ReasoningPolicy = {
+  keep: false,
+  display: "collapse",
+  expose: true,
+};
+
+/**
+ * A copy of the message without its reasoning
+ */
+export function withoutReasoning<T extends Message>(message: T): T {
+  if (message.reasoning === undefined) return message;
+
+  const copy: T = Object.assign(
+    Object.create(Object.getPrototypeOf(message)),
+    message,
+  );
+  delete copy.reasoning;
+  return copy;
+}
+
+/**
+ * Join the reasoning of several replies, e.g. across tool rounds
+ */
+export function joinReasoning(
+  ...reasoning: (string | undefined)[]
+): string | undefined {
+  return reasoning.filter((text) => text).join("\n\n") || undefined;
+}
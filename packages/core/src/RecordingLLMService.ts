@@ -0,0 +1,146 @@
+import * as fs from "fs";
+import * as path from "path";
+import { LLMService } from "./LLMService.ts";
+import { Message } from "./Message.ts";
+import { LLMRequest, MockLLMService, mockReplyFrom } from "./MockLLMService.ts";
+import { StreamablePromise } from "./StreamablePromise.ts";
+import { deserializeMessage, serializeMessage } from "./Session.ts";
+import type { SerializedMessage } from "./Session.ts";
+
+/**
+ * A recorded request and the reply it got
+ */
+export interface CassetteInteraction {
+  // what identifies the request, see describeRequest
+  request: Record<string, any>;
+  reply: SerializedMessage;
+  // the reply's text as it streamed
+  chunks?: string[];
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * - record: always ask the wrapped service, and save what it says
+ * - replay: only answer from the cassette, an unknown request fails
+ * - auto: replay what is recorded, record the rest
+ */
+export type RecordingMode = "record" | "replay" | "auto";
+
+/**
+ * Wraps a service to record its replies in a cassette file and replay them later,
+ * so agents can be run again without the provider, and with the same results.
+ * Requests match by model, messages, tools and settings. Each recording is replayed once,
+ * in order, so the same request can get different replies.
+ */
+export class RecordingLLMService extends LLMService {
+  protected cassette: Cassette;
+  // recordings already replayed in this run
+  protected used = new Set<CassetteInteraction>();
+
+  constructor(
+    protected service: LLMService,
+    public readonly cassettePath: string,
+    public readonly mode: RecordingMode = "auto",
+  ) {
+    super();
+    this.cassette =
+      mode !== "record" && fs.existsSync(cassettePath)
+        ? JSON.parse(fs.readFileSync(cassettePath, "utf-8"))
+        : { version: 1, interactions: [] };
+  }
+
+  _send(params: LLMRequest): StreamablePromise<Message> {
+    const request = describeRequest(params);
+    const key = JSON.stringify(request);
+    const recording =
+      this.mode === "record"
+        ? undefined
+        : this.cassette.interactions.find(
+            (interaction) =>
+              JSON.stringify(interaction.request) === key &&
+              !this.used.has(interaction),
+          );
+
+    if (recording) {
+      this.used.add(recording);
+      this.logger.debug("Replaying recorded reply", { model: params.model });
+      // the recording already has the parsed tool calls
+      const reply = mockReplyFrom(
+        deserializeMessage(recording.reply),
+        recording.chunks,
+      );
+      return new MockLLMService([reply]).send({
+        ...params,
+        parseToolCalls: false,
+      });
+    }
+
+    if (this.mode === "replay") {
+      return new StreamablePromise<Message>((_, reject) =>
+        reject(
+          new Error(
+            `No recorded reply for this request in ${this.cassettePath}`,
+          ),
+        ),
+      );
+    }
+
+    // tool instructions and history were already prepared by send, and doing it again changes nothing
+    const streamablePromise = this.service.send(params);
+    const chunks: string[] = [];
+    streamablePromise.on("chunk", (chunk: string) => chunks.push(chunk));
+    streamablePromise.then(
+      (reply) => this.save({ request, reply: serializeMessage(reply), chunks }),
+      () => {
+        // failures aren't recorded, the caller gets the error
+      },
+    );
+    return streamablePromise;
+  }
+
+  protected save(interaction: CassetteInteraction) {
+    this.cassette.interactions.push(interaction);
+    // the same request later in this run is recorded again, as the next reply to it
+    this.used.add(interaction);
+    fs.mkdirSync(path.dirname(this.cassettePath), { recursive: true });
+    fs.writeFileSync(
+      this.cassettePath,
+      JSON.stringify(this.cassette, null, 2),
+      "utf-8",
+    );
+  }
+}
+
+/**
+ * What identifies a request in a cassette: what is sent to the model, but not
+ * when messages were created, what they cost or how long tools took
+ */
+export function describeRequest(request: LLMRequest): Record<string, any> {
+  return {
+    model: request.model,
+    messages: request.messages.map((message) => ({
+      role: message.role,
+      content: message.content,
+      parts: message.parts,
+      toolCalls: message.toolCalls?.map(({ id, name, args }) => ({
+        id,
+        name,
+        args,
+      })),
+      toolCallId: "toolCallId" in message ? message.toolCallId : undefined,
+    })),
+    tools: request.tools?.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    })),
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    parseToolCalls: request.parseToolCalls,
+    toolCallDialect: request.toolCallDialect?.name,
+  };
+}
@@ -0,0 +1,327 @@
+import { AbortError } from "./AbortError.ts";
+import { LLMService } from "./LLMService.ts";
+import { Message } from "./Message.ts";
+import type { LLMRequest } from "./MockLLMService.ts";
+import { StreamablePromise } from "./StreamablePromise.ts";
+import { sleep } from "./utils.ts";
+
+/**
+ * When and how long to wait before sending a failed request again
+ */
+export interface RetryPolicy {
+  // retries after the first attempt
+  maxRetries: number;
+  // milliseconds before the first retry, doubled for every retry after it
+  initialDelay: number;
+  maxDelay: number;
+  // up to this fraction of the delay is randomly taken off, so clients don't retry in lockstep
+  jitter: number;
+  // a rate limit that resets later than this fails instead, so another model can be tried
+  maxRetryAfter: number;
+  // a stream that already sent more characters than this isn't retried, the retry
+  // would have to generate all of it again before the caller sees anything new
+  maxReplayedChars: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.25,
+  maxRetryAfter: 60000,
+  maxReplayedChars: 2000,
+};
+
+// 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([
+  408, 409, 425, 429, 500, 502, 503, 504, 529,
+]);
+
+// provider error types and Google status names, for errors reported in the middle of a stream
+const RETRYABLE_TYPES = new Set([
+  "overloaded_error",
+  "rate_limit_error",
+  "api_error",
+  "server_error",
+  "RESOURCE_EXHAUSTED",
+  "UNAVAILABLE",
+  "INTERNAL",
+  "DEADLINE_EXCEEDED",
+]);
+
+// network errors from node and undici, usually found on the error's cause
+const RETRYABLE_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+]);
+
+const RATE_LIMIT_INDICATORS = [
+  "rate limit",
+  "quota exceeded",
+  "too many requests",
+  "rate_limit_exceeded",
+  "quota_exceeded",
+  "requests per minute",
+  "rpm limit",
+];
+
+/**
+ * Check if an error indicates a rate limit or quota issue
+ */
+export function isRateLimitError(error: any): boolean {
+  if (!error) return false;
+  if ((error.status ?? error.code) === 429) return true;
+
+  const errorMessage = error.message?.toLowerCase() || "";
+  return RATE_LIMIT_INDICATORS.some((indicator) =>
+    errorMessage.includes(indicator),
+  );
+}
+
+/**
+ * Whether a request that failed with this error may succeed when sent again:
+ * rate limits, overloaded or failing servers and dropped connections.
+ * Bad requests, authentication errors and aborts are fatal.
+ */
+export function isRetryableError(error: any): boolean {
+  if (!error || error instanceof AbortError) return false;
+  if (typeof error.status === "number") {
+    return RETRYABLE_STATUSES.has(error.status);
+  }
+  if (RETRYABLE_TYPES.has(error.type) || RETRYABLE_TYPES.has(error.reason)) {
+    return true;
+  }
+
+  for (let cause = error; cause; cause = cause.cause) {
+    if (RETRYABLE_CODES.has(cause.code)) return true;
+  }
+  // the OpenAI SDK's, without a status
+  if (
+    ["APIConnectionError", "APIConnectionTimeoutError"].includes(
+      error.constructor?.name,
+    )
+  ) {
+    return true;
+  }
+  // fetch rejects with "fetch failed", and a body cut off mid-stream with "terminated"
+  if (
+    error instanceof TypeError &&
+    /fetch failed|terminated/i.test(error.message)
+  ) {
+    return true;
+  }
+  return isRateLimitError(error);
+}
+
+/**
+ * How long the provider asked to wait before retrying, from the Retry-After,
+ * retry-after-ms or x-ratelimit-reset headers of the error's response
+ * @returns milliseconds, or undefined if the provider didn't say
+ */
+export function retryAfter(error: any): number | undefined {
+  const headers = error?.headers;
+  if (!headers) return undefined;
+  const header = (name: string): string | undefined =>
+    (typeof headers.get === "function" ? headers.get(name) : headers[name]) ??
+    undefined;
+
+  const milliseconds = Number(header("retry-after-ms"));
+  if (milliseconds >= 0 && header("retry-after-ms")) return milliseconds;
+
+  const retryAfterHeader = header("retry-after");
+  if (retryAfterHeader) {
+    // seconds, or an HTTP date
+    const seconds = Number(retryAfterHeader);
+    const delay = Number.isNaN(seconds)
+      ? Date.parse(retryAfterHeader) - Date.now()
+      : seconds * 1000;
+    if (!Number.isNaN(delay)) return Math.max(0, delay);
+  }
+
+  // wait for the latest of the limits to reset
+  const resets = [
+    "x-ratelimit-reset",
+    "x-ratelimit-reset-requests",
+    "x-ratelimit-reset-tokens",
+  ]
+    .map((name) => header(name))
+    .filter((value): value is string => !!value)
+    .map(parseReset)
+    .filter((delay): delay is number => delay !== undefined);
+  return resets.length ? Math.max(0, ...resets) : undefined;
+}
+
+/**
+ * Providers send x-ratelimit-reset as a duration like "6m0s" or "20ms",
+ * seconds to wait, or the time of the reset in epoch seconds or milliseconds
+ */
+function parseReset(value: string): number | undefined {
+  const number = Number(value);
+  if (!Number.isNaN(number)) {
+    if (number > 1e12) return number - Date.now();
+    if (number > 1e9) return number * 1000 - Date.now();
+    return number * 1000;
+  }
+
+  const units: Record<string, number> = {
+    h: 3600000,
+    m: 60000,
+    s: 1000,
+    ms: 1,
+  };
+  const parts = [...value.matchAll(/([\d.]+)(ms|h|m|s)/g)];
+  if (!parts.length) return undefined;
+  return parts.reduce(
+    (total, [, amount, unit]) => total + Number(amount) * units[unit!]!,
+    0,
+  );
+}
+
+/**
+ * The delay before a retry: what the provider asked for, otherwise exponential
+ * backoff with jitter
+ * @param attempt - the number of the retry, from 0
+ * @returns milliseconds, or undefined if the provider asked to wait longer than the policy allows
+ */
+export function retryDelay(
+  error: any,
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): number | undefined {
+  const requested = retryAfter(error);
+  if (requested !== undefined) {
+    return requested <= policy.maxRetryAfter ? requested : undefined;
+  }
+
+  const backoff = Math.min(policy.initialDelay * 2 ** attempt, policy.maxDelay);
+  return Math.round(backoff * (1 - policy.jitter * Math.random()));
+}
+
+/**
+ * Wraps a service to send requests again when they fail with a retryable error,
+ * waiting between attempts as the RetryPolicy says. A stream that fails part way
+ * is retried too: text the caller already got is skipped when the retry repeats it.
+ * Emits "retry" with the attempt, the delay and the error before each retry.
+ */
+export class RetryingLLMService extends LLMService {
+  public readonly policy: RetryPolicy;
+
+  constructor(
+    protected service: LLMService,
+    policy: Partial<RetryPolicy> = {},
+  ) {
+    super();
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...policy };
+  }
+
+  _send(params: LLMRequest): StreamablePromise<Message> {
+    const streamablePromise = new StreamablePromise<Message>(
+      (resolve, reject) => {
+        // started once the executor returns, the attempts emit on streamablePromise
+        Promise.resolve()
+          .then(() => this.sendWithRetries(streamablePromise, params))
+          .then(resolve, (error) => {
+            // an unheard "error" event would throw
+            if (streamablePromise.listenerCount("error")) {
+              streamablePromise.emit("error", error);
+            }
+            reject(error);
+          });
+      },
+    );
+
+    return streamablePromise;
+  }
+
+  protected async sendWithRetries(
+    streamablePromise: StreamablePromise<Message>,
+    params: LLMRequest,
+  ): Promise<Message> {
+    // the text the caller has been sent, over all attempts
+    const sent = { chunk: "", reasoning: "" };
+    let toolCallArgs = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      // tool instructions and history were already prepared by send, and doing it again changes nothing
+      const source = this.service.send(params);
+      source.on("chunk", this.forwardText(streamablePromise, sent, "chunk"));
+      source.on(
+        "reasoning",
+        this.forwardText(streamablePromise, sent, "reasoning"),
+      );
+      source.on("toolCallArgsDelta", (_id: string, delta: string) => {
+        toolCallArgs += delta.length;
+      });
+      for (const event of [
+        "toolCallStart",
+        "toolCallArgsDelta",
+        "toolCall",
+        "complete",
+      ]) {
+        source.on(event, (...args) => streamablePromise.emit(event, ...args));
+      }
+      // errors arrive as the rejection, but an "error" event without a listener would throw
+      source.on("error", () => {});
+
+      try {
+        return await source;
+      } catch (error: any) {
+        const replayed =
+          sent.chunk.length + sent.reasoning.length + toolCallArgs;
+        const delay =
+          attempt < this.policy.maxRetries &&
+          isRetryableError(error) &&
+          replayed <= this.policy.maxReplayedChars &&
+          !params.signal?.aborted
+            ? retryDelay(error, attempt, this.policy)
+            : undefined;
+        if (delay === undefined) throw error;
+
+        this.logger.warn("Retrying request", {
+          model: params.model,
+          attempt: attempt + 1,
+          delay,
+          error: error.message,
+        });
+        streamablePromise.emit("retry", attempt + 1, delay, error);
+        await sleep(delay, params.signal);
+      } finally {
+        source.removeAllListeners();
+      }
+    }
+  }
+
+  /**
+   * Forward an attempt's text, skipping what earlier attempts already sent while
+   * this one repeats it. A retry that says something else is sent in full.
+   */
+  protected forwardText(
+    streamablePromise: StreamablePromise<Message>,
+    sent: { chunk: string; reasoning: string },
+    event: "chunk" | "reasoning",
+  ) {
+    const repeated = sent[event];
+    let received = "";
+    let repeating = repeated.length > 0;
+
+    return (text: string) => {
+      if (repeating) {
+        received += text;
+        if (repeated.startsWith(received)) return;
+        repeating = false;
+        text = received.startsWith(repeated)
+          ? received.substring(repeated.length)
+          : received;
+      }
+      sent[event] += text;
+      streamablePromise.emit(event, text);
+    };
+  }
+}
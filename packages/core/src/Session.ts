@@ -0,0 +1,180 @@
+import { randomUUID } from "crypto";
+import type { Agent } from "./Agent.ts";
+import type { ContentPart } from "./ContentPart.ts";
+import { Message } from "./Message.ts";
+import { ToolCall } from "./ToolCall.ts";
+import { ToolMessage } from "./ToolMessage.ts";
+import type { ToolResult } from "./ToolResult.ts";
+import type { Usage } from "./Usage.ts";
+
+// bumped when the format changes in a way older readers can't handle
+export const SESSION_VERSION = 1;
+
+export interface SerializedToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  result?: ToolResult;
+}
+
+export interface SerializedMessage {
+  role: Message["role"];
+  content: string;
+  parts?: ContentPart[];
+  reasoning?: string;
+  providerData?: Record<string, any>;
+  createdAt?: string;
+  pinned?: boolean;
+  usage?: Usage;
+  toolCalls?: SerializedToolCall[];
+  // set on tool messages
+  toolCallId?: string;
+  result?: ToolResult;
+}
+
+/**
+ * An agent's conversation in a form that can be stored as JSON and resumed later
+ */
+export interface Session {
+  version: number;
+  id: string;
+  title?: string;
+  // class name of the agent that had the conversation
+  agent: string;
+  model: string;
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+  // the session this one was forked from
+  parentId?: string;
+  messages: SerializedMessage[];
+  usage?: Usage;
+}
+
+export type SessionSummary = Omit<Session, "version" | "messages" | "usage"> & {
+  messageCount: number;
+};
+
+export function serializeMessage(message: Message): SerializedMessage {
+  const serialized: SerializedMessage = {
+    role: message.role,
+    content: message.content,
+    parts: message instanceof ToolMessage ? undefined : message.parts,
+    reasoning: message.reasoning,
+    providerData: message.providerData,
+    createdAt: message.createdAt?.toISOString(),
+    pinned: message.pinned,
+    usage: message.usage,
+    toolCalls: message.toolCalls?.map(({ id, name, args, result }) => ({
+      id,
+      name,
+      args,
+      result,
+    })),
+  };
+
+  if (message instanceof ToolMessage) {
+    serialized.toolCallId = message.toolCallId;
+    serialized.result = message.result;
+  }
+
+  return serialized;
+}
+
+export function deserializeMessage(serialized: SerializedMessage): Message {
+  const message =
+    serialized.role === "tool" && serialized.toolCallId !== undefined
+      ? new ToolMessage(
+          serialized.content,
+          serialized.toolCallId,
+          serialized.result,
+        )
+      : new Message(serialized.role, serialized.parts ?? serialized.content);
+
+  message.toolCalls = serialized.toolCalls?.map((serializedCall) => {
+    const toolCall = new ToolCall(
+      serializedCall.id,
+      serializedCall.name,
+      serializedCall.args,
+    );
+    toolCall.result = serializedCall.result;
+    return toolCall;
+  });
+  if (serialized.createdAt) message.createdAt = new Date(serialized.createdAt);
+  if (serialized.reasoning) message.reasoning = serialized.reasoning;
+  if (serialized.providerData) message.providerData = serialized.providerData;
+  if (serialized.pinned) message.pinned = true;
+  if (serialized.usage) message.usage = serialized.usage;
+
+  return message;
+}
+
+/**
+ * Capture an agent's history as a session
+ * @param agent - The agent whose history to save
+ * @param previous - The session being updated, keeps its id, title and creation time
+ */
+export function createSession(
+  agent: Agent,
+  previous?: Partial<Pick<Session, "id" | "title" | "createdAt" | "parentId">>,
+): Session {
+  const now = new Date().toISOString();
+  return {
+    version: SESSION_VERSION,
+    id: previous?.id ?? randomUUID(),
+    title: previous?.title ?? defaultTitle(agent.history),
+    agent: agent.constructor.name,
+    model: agent.modelName,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+    parentId: previous?.parentId,
+    messages: agent.history.map(serializeMessage),
+    usage: agent.usage.requests ? agent.usage.total : undefined,
+  };
+}
+
+/**
+ * Replace an agent's history with a session's messages
+ */
+export function restoreSession(agent: Agent, session: Session): void {
+  if (session.version > SESSION_VERSION) {
+    throw new Error(
+      `Session ${session.id} was saved by a newer version (format ${session.version})`,
+    );
+  }
+  agent.history = session.messages.map(deserializeMessage);
+}
+
+/**
+ * Copy a session under a new id so it can continue separately from the original
+ * @param messageCount - Keep only this many messages, to branch from an earlier point
+ */
+export function forkSession(session: Session, messageCount?: number): Session {
+  const now = new Date().toISOString();
+  return {
+    ...session,
+    id: randomUUID(),
+    title: session.title ? `${session.title} (fork)` : undefined,
+    createdAt: now,
+    updatedAt: now,
+    parentId: session.id,
+    messages: session.messages.slice(0, messageCount),
+  };
+}
+
+export function summarizeSession({
+  version,
+  messages,
+  usage,
+  ...summary
+}: Session): SessionSummary {
+  return { ...summary, messageCount: messages.length };
+}
+
+function defaultTitle(history: Message[]): string | undefined {
+  const first = history.find((message) => message.role === "user");
+  if (!first) return undefined;
+
+  const line = first.content.trim().split("\n")[0]!;
+  return line.length > 60 ? `${line.substring(0, 57)}...` : line;
+}
@@ -0,0 +1,167 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { getLogger, Logger } from "./Logger.ts";
+import { Session, SessionSummary, summarizeSession } from "./Session.ts";
+
+/**
+ * Saves and loads sessions
+ */
+export interface SessionStore {
+  // creates the session or replaces the one with the same id
+  save(session: Session): Promise<void>;
+  load(id: string): Promise<Session | undefined>;
+  // most recently updated first
+  list(): Promise<SessionSummary[]>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Stores each session as a JSON file in a directory
+ */
+export class FileSessionStore implements SessionStore {
+  public logger: Logger = getLogger();
+
+  constructor(protected directory: string) {}
+
+  public async save(session: Session): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // write then rename so a crash never leaves a half-written session
+    const file = this.file(session.id);
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(session, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  public async load(id: string): Promise<Session | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(id), "utf-8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  public async list(): Promise<SessionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    // a corrupt file is skipped, so the other sessions can still be listed
+    const summaries = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => {
+          try {
+            const session = await this.load(path.basename(file, ".json"));
+            return session && summarizeSession(session);
+          } catch (error: any) {
+            this.logger.warn("Skipping unreadable session", {
+              file: path.join(this.directory, file),
+              error: error.message,
+            });
+            return undefined;
+          }
+        }),
+    );
+    return summaries
+      .filter((summary): summary is SessionSummary => !!summary)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  public async delete(id: string): Promise<void> {
+    await fs.rm(this.file(id), { force: true });
+  }
+
+  protected file(id: string): string {
+    if (!/^[\w.-]+$/.test(id) || id.startsWith(".")) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+}
+
+/**
+ * The part of a synchronous SQLite driver the store needs. Both better-sqlite3
+ * and node:sqlite's DatabaseSync fit.
+ */
+export interface SQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: any[]): unknown;
+    get(...params: any[]): unknown;
+    all(...params: any[]): unknown[];
+  };
+}
+
+/**
+ * Stores sessions in a SQLite table, one row per session
+ */
+export class SQLiteSessionStore implements SessionStore {
+  constructor(protected db: SQLiteDatabase) {
+    db.exec(`CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      title TEXT,
+      agent TEXT NOT NULL,
+      model TEXT NOT NULL,
+      parent_id TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      message_count INTEGER NOT NULL,
+      data TEXT NOT NULL
+    )`);
+  }
+
+  public async save(session: Session): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO sessions
+          (id, title, agent, model, parent_id, created_at, updated_at, message_count, data)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        session.id,
+        session.title ?? null,
+        session.agent,
+        session.model,
+        session.parentId ?? null,
+        session.createdAt,
+        session.updatedAt,
+        session.messages.length,
+        JSON.stringify(session),
+      );
+  }
+
+  public async load(id: string): Promise<Session | undefined> {
+    const row = this.db
+      .prepare("SELECT data FROM sessions WHERE id = ?")
+      .get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  public async list(): Promise<SessionSummary[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT id, title, agent, model, parent_id, created_at, updated_at, message_count
+          FROM sessions ORDER BY updated_at DESC`,
+      )
+      .all() as Record<string, any>[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      title: row.title ?? undefined,
+      agent: row.agent,
+      model: row.model,
+      parentId: row.parent_id ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      messageCount: row.message_count,
+    }));
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
+  }
+}
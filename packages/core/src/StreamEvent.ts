@@ -0,0 +1,75 @@
+import type { Message } from "./Message.ts";
+import type { PartialJsonParser } from "./PartialJsonParser.ts";
+import type { ToolCall } from "./ToolCall.ts";
+import type { Usage } from "./Usage.ts";
+
+/**
+ * Events yielded when iterating a StreamablePromise with `for await`
+ */
+export type StreamEvent<T = Message> =
+  | { type: "text"; text: string }
+  | { type: "reasoning"; text: string }
+  // a tool call the model has started writing, the arguments follow as deltas
+  | { type: "toolCallStart"; id: string; name: string }
+  // parser.value has the arguments received so far
+  | {
+      type: "toolCallArgsDelta";
+      id: string;
+      delta: string;
+      parser: PartialJsonParser;
+    }
+  // the complete tool call with parsed arguments ("toolCall" on emitters)
+  | { type: "toolCallEnd"; toolCall: ToolCall }
+  // emitted by agents after running a tool
+  | { type: "toolResult"; toolCall: ToolCall }
+  | { type: "usage"; usage: Usage }
+  // always the last event, unless iterating throws
+  | { type: "done"; result: T };
+
+/**
+ * Turn emitter events into stream events. The event names are the ones services and agents emit.
+ */
+export const STREAM_EVENT_LISTENERS: Record<
+  string,
+  (...args: any[]) => StreamEvent<never>
+> = {
+  chunk: (text: string) => ({ type: "text", text }),
+  reasoning: (text: string) => ({ type: "reasoning", text }),
+  toolCallStart: (id: string, name: string) => ({
+    type: "toolCallStart",
+    id,
+    name,
+  }),
+  toolCallArgsDelta: (
+    id: string,
+    delta: string,
+    parser: PartialJsonParser,
+  ) => ({ type: "toolCallArgsDelta", id, delta, parser }),
+  toolCall: (toolCall: ToolCall) => ({ type: "toolCallEnd", toolCall }),
+  toolResult: (toolCall: ToolCall) => ({ type: "toolResult", toolCall }),
+  usage: (usage: Usage) => ({ type: "usage", usage }),
+};
+
+/**
+ * Merge a delta into the previous event when both are pieces of the same stream,
+ * so a slow consumer gets fewer, larger events instead of an ever-growing queue
+ */
+export function mergeStreamEvents<T>(
+  previous: StreamEvent<T>,
+  next: StreamEvent<T>,
+): StreamEvent<T> | undefined {
+  if (
+    (previous.type === "text" && next.type === "text") ||
+    (previous.type === "reasoning" && next.type === "reasoning")
+  ) {
+    return { ...previous, text: previous.text + next.text };
+  }
+  if (
+    previous.type === "toolCallArgsDelta" &&
+    next.type === "toolCallArgsDelta" &&
+    previous.id === next.id
+  ) {
+    return { ...previous, delta: previous.delta + next.delta };
+  }
+  return undefined;
+}
@@ -1,8 +1,15 @@
 import { EventEmitter } from "node:events";
+import {
+  mergeStreamEvents,
+  STREAM_EVENT_LISTENERS,
+  StreamEvent,
+} from "./StreamEvent.ts";
 
 /**
  * A hybrid class that combines EventEmitter and Promise functionality.
  * Can be used for streaming (listen to events) or awaited for final result.
+ * Services emit "chunk" for reply text, "reasoning" for the model's thinking and "toolCall".
+ * It can also be iterated with `for await`, yielding the same events as StreamEvents.
  */
 export class StreamablePromise<T> extends EventEmitter implements Promise<T> {
   private promise: Promise<T>;
@@ -55,6 +62,83 @@ export class StreamablePromise<T> extends EventEmitter implements Promise<T> {
     return this.promise.finally(onfinally);
   }
 
+  /**
+   * Iterate the events from now until the promise settles. The last event is "done",
+   * a rejection is thrown once the events before it have been consumed.
+   * Listeners are removed when the promise settles or the loop exits early.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<StreamEvent<T>> {
+    const queue: StreamEvent<T>[] = [];
+    let settled = false;
+    let failure: { error: any } | undefined;
+    let wake: (() => void) | undefined;
+
+    const push = (event: StreamEvent<T>) => {
+      const last = queue[queue.length - 1];
+      const merged = last && mergeStreamEvents(last, event);
+      if (merged) {
+        queue[queue.length - 1] = merged;
+      } else {
+        queue.push(event);
+      }
+      wake?.();
+    };
+
+    const listeners = Object.entries(STREAM_EVENT_LISTENERS).map(
+      ([name, toEvent]) =>
+        [name, (...args: any[]) => push(toEvent(...args))] as const,
+    );
+    // errors arrive as the rejection, but an "error" event without a listener would throw
+    const ignoreError = () => {};
+    const cleanup = () => {
+      for (const [name, listener] of listeners) this.off(name, listener);
+      this.off("error", ignoreError);
+    };
+    for (const [name, listener] of listeners) this.on(name, listener);
+    this.on("error", ignoreError);
+
+    this.promise.then(
+      (result) => {
+        push({ type: "done", result });
+        settled = true;
+        cleanup();
+      },
+      (error) => {
+        failure = { error };
+        settled = true;
+        cleanup();
+        wake?.();
+      },
+    );
+
+    return {
+      next: async () => {
+        while (!queue.length && !settled) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+
+        if (queue.length) {
+          return { value: queue.shift()!, done: false };
+        }
+        if (failure) {
+          const { error } = failure;
+          failure = undefined;
+          throw error;
+        }
+        return { value: undefined, done: true };
+      },
+      // break or return inside the loop
+      return: async () => {
+        cleanup();
+        queue.length = 0;
+        settled = true;
+        failure = undefined;
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
   // Symbol for Promise compatibility
   readonly [Symbol.toStringTag] = "Promise";
 }
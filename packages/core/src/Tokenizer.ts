@@ -0,0 +1,220 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getLogger } from "./Logger.ts";
+import { estimateTokens } from "./utils.ts";
+
+/**
+ * Counts tokens the way a model's tokenizer does
+ */
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+/**
+ * Fallback tokenizer based on character count, see estimateTokens
+ */
+export const estimateTokenizer: Tokenizer = {
+  name: "estimate",
+  count: estimateTokens,
+};
+
+// Pre-tokenization patterns for the tiktoken encodings.
+// JavaScript has no inline case-insensitive groups, so contractions are spelled out.
+const CONTRACTIONS =
+  "'s|'S|'t|'T|'re|'rE|'Re|'RE|'ve|'vE|'Ve|'VE|'m|'M|'ll|'lL|'Ll|'LL|'d|'D";
+
+export const BPE_ENCODINGS = {
+  cl100k_base: {
+    pattern: `(${CONTRACTIONS})|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    specialTokens: {
+      "<|endoftext|>": 100257,
+      "<|fim_prefix|>": 100258,
+      "<|fim_middle|>": 100259,
+      "<|fim_suffix|>": 100260,
+      "<|endofprompt|>": 100276,
+    },
+  },
+  o200k_base: {
+    pattern: `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(${CONTRACTIONS})?|[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(${CONTRACTIONS})?|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    specialTokens: {
+      "<|endoftext|>": 199999,
+      "<|endofprompt|>": 200018,
+    },
+  },
+} satisfies Record<
+  string,
+  { pattern: string; specialTokens: Record<string, number> }
+>;
+
+export type BPEEncoding = keyof typeof BPE_ENCODINGS;
+
+// merging takes time quadratic in a piece's length, so longer pieces, like
+// minified code or base64 without spaces, are encoded in slices of this many bytes
+const MAX_PIECE_BYTES = 256;
+
+/**
+ * Byte pair encoding tokenizer compatible with tiktoken vocabularies
+ */
+export class BPETokenizer implements Tokenizer {
+  protected pattern: RegExp;
+  protected specialPattern?: RegExp;
+  // recently encoded pieces, most text repeats the same words
+  protected cache = new Map<string, number[]>();
+
+  /**
+   * @param name - Name of the encoding
+   * @param ranks - Merge ranks keyed by the token's bytes as a latin1 string
+   * @param pattern - Pre-tokenization regular expression source
+   * @param specialTokens - Special tokens that are encoded as a single token
+   */
+  constructor(
+    public readonly name: string,
+    protected ranks: Map<string, number>,
+    pattern: string,
+    protected specialTokens: Record<string, number> = {},
+  ) {
+    this.pattern = new RegExp(pattern, "gu");
+
+    const special = Object.keys(specialTokens);
+    if (special.length) {
+      this.specialPattern = new RegExp(
+        special
+          .map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+          .join("|"),
+        "g",
+      );
+    }
+  }
+
+  /**
+   * Load a vocabulary in the tiktoken format: one "<base64 token> <rank>" per line
+   * @param filePath - Path to the .tiktoken file
+   * @param encoding - Which encoding the file contains, selects the pre-tokenization rules
+   */
+  static fromFile(filePath: string, encoding: BPEEncoding): BPETokenizer {
+    const ranks = new Map<string, number>();
+    for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+      const [token, rank] = line.split(" ");
+      if (!token || rank === undefined) continue;
+      ranks.set(Buffer.from(token, "base64").toString("latin1"), Number(rank));
+    }
+
+    const { pattern, specialTokens } = BPE_ENCODINGS[encoding];
+    return new BPETokenizer(encoding, ranks, pattern, specialTokens);
+  }
+
+  public count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  public encode(text: string): number[] {
+    const tokens: number[] = [];
+    let start = 0;
+
+    if (this.specialPattern) {
+      for (const match of text.matchAll(this.specialPattern)) {
+        this.encodeOrdinary(text.slice(start, match.index), tokens);
+        tokens.push(this.specialTokens[match[0]]!);
+        start = match.index! + match[0].length;
+      }
+    }
+    this.encodeOrdinary(text.slice(start), tokens);
+
+    return tokens;
+  }
+
+  protected encodeOrdinary(text: string, tokens: number[]): void {
+    for (const [piece] of text.matchAll(this.pattern)) {
+      let encoded = this.cache.get(piece);
+      if (!encoded) {
+        encoded = this.encodePiece(
+          Buffer.from(piece, "utf-8").toString("latin1"),
+        );
+        if (this.cache.size >= 10000) {
+          this.cache.clear();
+        }
+        this.cache.set(piece, encoded);
+      }
+      tokens.push(...encoded);
+    }
+  }
+
+  /**
+   * Merge the bytes of a piece, lowest rank pair first, until no pair is in the vocabulary
+   */
+  protected encodePiece(bytes: string): number[] {
+    const whole = this.ranks.get(bytes);
+    if (whole !== undefined) {
+      return [whole];
+    }
+    if (bytes.length > MAX_PIECE_BYTES) {
+      const result: number[] = [];
+      for (let i = 0; i < bytes.length; i += MAX_PIECE_BYTES) {
+        result.push(...this.encodePiece(bytes.slice(i, i + MAX_PIECE_BYTES)));
+      }
+      return result;
+    }
+
+    // start offsets of each part; the last entry marks the end of the piece
+    const parts = Array.from({ length: bytes.length + 1 }, (_, i) => i);
+    const rankOf = (i: number) =>
+      i + 2 < parts.length
+        ? (this.ranks.get(bytes.slice(parts[i], parts[i + 2])) ?? Infinity)
+        : Infinity;
+
+    while (parts.length > 2) {
+      let minRank = Infinity;
+      let minIndex = -1;
+      for (let i = 0; i < parts.length - 2; i++) {
+        const rank = rankOf(i);
+        if (rank < minRank) {
+          minRank = rank;
+          minIndex = i;
+        }
+      }
+
+      if (minIndex === -1) break;
+      parts.splice(minIndex + 1, 1);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < parts.length - 1; i++) {
+      result.push(this.ranks.get(bytes.slice(parts[i], parts[i + 1]))!);
+    }
+    return result;
+  }
+}
+
+const tokenizers = new Map<string, Tokenizer>();
+
+/**
+ * Get a tokenizer for an encoding, loading `<encoding>.tiktoken` from the tokenizer directory.
+ * Falls back to estimateTokenizer when the vocabulary file isn't available.
+ * @param encoding - The encoding name
+ * @param directory - Where vocabulary files are kept (defaults to FRAIMWORK_TOKENIZER_DIR or ~/.cache/fraimwork/tokenizers)
+ */
+export function getTokenizer(
+  encoding: BPEEncoding,
+  directory: string = process.env.FRAIMWORK_TOKENIZER_DIR ??
+    path.join(os.homedir(), ".cache", "fraimwork", "tokenizers"),
+): Tokenizer {
+  const filePath = path.join(directory, `${encoding}.tiktoken`);
+  let tokenizer = tokenizers.get(filePath);
+
+  if (!tokenizer) {
+    if (fs.existsSync(filePath)) {
+      tokenizer = BPETokenizer.fromFile(filePath, encoding);
+    } else {
+      // warned once, the fallback is cached like a loaded tokenizer
+      getLogger().warn("Tokenizer vocabulary not found, estimating tokens", {
+        file: filePath,
+      });
+      tokenizer = estimateTokenizer;
+    }
+    tokenizers.set(filePath, tokenizer);
+  }
+
+  return tokenizer;
+}
@@ -1,22 +1,55 @@
 import { JSONSchema7 } from "json-schema";
+import { AbortError } from "./AbortError.ts";
+import { SchemaIssue, ToolArgs, validateSchema } from "./schemaUtils.ts";
+import { ToolResult, toolError, toToolResult } from "./ToolResult.ts";
 
-export class Tool {
+/**
+ * What a tool can do to its environment, used by approval policies:
+ * read has no side effects, write changes files or state, destructive removes them
+ */
+export type ToolRisk = "read" | "write" | "destructive";
+
+/**
+ * A function the LLM can call. The callback's argument type is inferred from
+ * `parameters` and `required`, e.g. `{ path: { type: "string" } }` with
+ * `required: ["path"]` gives `args: { path: string }`.
+ */
+export class Tool<
+  P extends Record<string, JSONSchema7> = any,
+  R extends keyof P & string = any,
+> {
   type = "function";
   public readonly name: string;
   public readonly description?: string;
   public readonly parameters?: JSONSchema7;
+  // true when the tool has no side effects that could conflict with other calls
+  public readonly concurrencySafe: boolean;
+  // untagged tools are treated as write
+  public readonly risk: ToolRisk;
+  // describes what a call would change, e.g. as a diff, without making the change.
+  // Gets the arguments after validation, and isn't called when they are invalid
+  public readonly preview?: (args: ToolArgs<P, R>) => Promise<string>;
 
   constructor(
     props: {
       name: string;
       description: string;
-      parameters?: Record<string, JSONSchema7>;
-      required?: string[];
+      parameters?: P;
+      required?: R[];
+      concurrencySafe?: boolean;
+      risk?: ToolRisk;
+      preview?: (args: ToolArgs<P, R>) => Promise<string>;
     },
-    public readonly callback: (args: Record<string, any>) => Promise<string>,
+    public readonly callback: (
+      args: ToolArgs<P, R>,
+      signal?: AbortSignal,
+    ) => Promise<string | ToolResult>,
   ) {
     this.name = props.name;
     this.description = props.description;
+    this.concurrencySafe = props.concurrencySafe ?? false;
+    this.risk = props.risk ?? "write";
+    this.preview = props.preview;
 
     if (props.parameters && Object.keys(props.parameters).length > 0) {
       this.parameters = {
@@ -27,11 +60,34 @@ export class Tool {
     }
   }
 
-  public async call(args: Record<string, any>): Promise<string> {
+  /**
+   * Validate arguments against the parameter schema, coercing string values
+   * (as produced by text tool-call parsing) to the expected types
+   * @returns The coerced arguments and any validation issues
+   */
+  public validate(args: Record<string, any> = {}): {
+    args: Record<string, any>;
+    issues: SchemaIssue[];
+  } {
+    if (!this.parameters) {
+      return { args, issues: [] };
+    }
+
+    const { value, issues } = validateSchema(this.parameters, args);
+    return { args: value, issues };
+  }
+
+  public async call(
+    args: ToolArgs<P, R>,
+    signal?: AbortSignal,
+  ): Promise<ToolResult> {
     try {
-      return await this.callback(args);
+      return toToolResult(await this.callback(args, signal));
     } catch (e: any) {
-      return e.message;
+      if (e instanceof AbortError) {
+        throw e;
+      }
+      return toolError(e.message);
     }
   }
 }
@@ -1,11 +1,12 @@
 import { Message } from "./Message.ts";
 import { ToolMessage } from "./ToolMessage.ts";
+import type { ToolResult } from "./ToolResult.ts";
 
 /**
  * Represents a tool invocation
  */
 export class ToolCall {
-  public result?: string;
+  public result?: ToolResult;
 
   public constructor(
     // id provided by LLM
@@ -21,9 +22,9 @@ export class ToolCall {
   /**
    * Retrieves a message instance based on the current result or an empty string if no result exists.
    *
-   * @return {Message} An instance of ToolMessage constructed using the result or an empty string, and the provided ID.
+   * @return {Message} An instance of ToolMessage constructed using the result content or an empty string, and the provided ID.
    */
   public get message(): Message {
-    return new ToolMessage(this.result || "", this.id);
+    return new ToolMessage(this.result?.content ?? "", this.id, this.result);
   }
 }
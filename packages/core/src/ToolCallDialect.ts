@@ -0,0 +1,473 @@
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import type { Tool } from "./Tool.ts";
+import { ToolCall } from "./ToolCall.ts";
+import { parseToolCalls, ToolCallParseResult } from "./ToolCallParser.ts";
+
+/**
+ * A text format for tool calls, for models without native tool calling.
+ * Models follow the format they were fine-tuned on most reliably.
+ */
+export interface ToolCallDialect {
+  name: string;
+  // the system message that describes the tools and how to call them
+  renderTools(tools: Tool[]): string;
+  // find the calls in a reply
+  parse(text: string): ToolCallParseResult;
+  // a call written the way the model should write it, for examples and history
+  formatToolCall(toolCall: Pick<ToolCall, "name" | "args">): string;
+  // a tool's result as the model expects to read it, sent in a user message
+  formatToolResult(name: string, content: string): string;
+}
+
+const EXAMPLE_CALL = {
+  name: "ToolName",
+  args: { param1: "value1", param2: "value2" },
+};
+
+/**
+ * `<ToolCall>{"tool": "Name", "parameters": {...}}</ToolCall>`, the default
+ */
+export const jsonTagDialect: ToolCallDialect = {
+  name: "json-tag",
+
+  renderTools(tools) {
+    return `You have access to the following tools:
+
+${describeTools(tools)}
+To use a tool, respond with the following format:
+
+${this.formatToolCall(EXAMPLE_CALL)}
+
+CRITICAL: Always use valid JSON in the <ToolCall> tag. Make sure to match brackets! each "{" must have a matching "}"
+`;
+  },
+
+  parse: parseToolCalls,
+
+  formatToolCall({ name, args }) {
+    return `<ToolCall>\n${JSON.stringify({ tool: name, parameters: args })}\n</ToolCall>`;
+  },
+
+  formatToolResult(name, content) {
+    return `<ToolResult tool="${name}">\n${content}\n</ToolResult>`;
+  },
+};
+
+/**
+ * Qwen3-Coder's format, one tag per parameter so long values like file contents need no escaping
+ */
+export const xmlParameterDialect: ToolCallDialect = {
+  name: "xml-parameter",
+
+  renderTools(tools) {
+    return `You have access to the following tools:
+
+${describeTools(tools)}
+To use a tool, respond with the following format:
+
+${this.formatToolCall(EXAMPLE_CALL)}
+
+Write parameter values as plain text, without quotes or escaping. Write arrays and objects as JSON.
+`;
+  },
+
+  parse: parseToolCalls,
+
+  formatToolCall({ name, args }) {
+    const parameters = Object.entries(args).map(
+      ([key, value]) =>
+        `<parameter=${key}>\n${typeof value === "string" ? value : JSON.stringify(value)}\n</parameter>\n`,
+    );
+    return `<tool_call>\n<function=${name}>\n${parameters.join("")}</function>\n</tool_call>`;
+  },
+
+  formatToolResult(name, content) {
+    return `<tool_response>\n${content}\n</tool_response>`;
+  },
+};
+
+/**
+ * The Hermes format used by Qwen, Hermes and many other open models: tools as JSON schemas
+ * in `<tools>`, calls as `<tool_call>{"name": ..., "arguments": ...}</tool_call>`
+ */
+export const hermesDialect: ToolCallDialect = {
+  name: "hermes",
+
+  renderTools(tools) {
+    const schemas = tools.map((tool) =>
+      JSON.stringify({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters ?? { type: "object", properties: {} },
+        },
+      }),
+    );
+    return `# Tools
+
+You may call one or more functions to assist with the user query.
+
+You are provided with function signatures within <tools></tools> XML tags:
+<tools>
+${schemas.join("\n")}
+</tools>
+
+For each function call, return a json object with function name and arguments within <tool_call></tool_call> XML tags:
+<tool_call>
+{"name": <function-name>, "arguments": <args-json-object>}
+</tool_call>
+`;
+  },
+
+  parse: parseToolCalls,
+
+  formatToolCall({ name, args }) {
+    return `<tool_call>\n${JSON.stringify({ name, arguments: args })}\n</tool_call>`;
+  },
+
+  formatToolResult(name, content) {
+    return `<tool_response>\n${content}\n</tool_response>`;
+  },
+};
+
+/**
+ * Tools as Python function signatures, calls as Python in a `tool_code` block.
+ * Suits models trained on code more than on a tool-calling format.
+ */
+export const pythonCallDialect: ToolCallDialect = {
+  name: "python-call",
+
+  renderTools(tools) {
+    return `You can call the following Python functions:
+
+\`\`\`python
+${tools.map(pythonSignature).join("\n\n")}
+\`\`\`
+
+To call functions, write the calls in a tool_code block, using keyword arguments:
+
+${this.formatToolCall(EXAMPLE_CALL)}
+`;
+  },
+
+  parse(text) {
+    const result = parseToolCalls(text);
+    let content = result.content;
+    const calls: ToolCall[] = [];
+
+    const failures = [...result.failures];
+
+    // python blocks are code samples, calls only go in tool_code blocks as the prompt asks
+    for (const block of content.matchAll(
+      /```tool_code[ \t]*\n(.*?)(?:```|$)/gs,
+    )) {
+      const [raw, code] = block;
+      const index = result.toolCalls.length + calls.length;
+      try {
+        calls.push(
+          ...parsePythonCalls(code!).map(
+            ({ name, args }, i) =>
+              new ToolCall(`${name}-${index + i}-${Date.now()}`, name, args),
+          ),
+        );
+      } catch (error: any) {
+        // a tool_code block is always meant as calls, the model should hear what was wrong
+        const toolCall = new ToolCall(
+          `invalid-${index}-${Date.now()}`,
+          code!.match(/^\s*([A-Za-z_][\w.]*)\s*\(/)?.[1] ?? "unknown",
+        );
+        calls.push(toolCall);
+        failures.push({ toolCall, error: error.message, raw });
+      }
+      content = content.replace(raw, "");
+    }
+
+    return {
+      toolCalls: [...result.toolCalls, ...calls],
+      failures,
+      content: content.trim(),
+    };
+  },
+
+  formatToolCall({ name, args }) {
+    const keywords = Object.entries(args).map(
+      ([key, value]) => `${key}=${pythonLiteral(value)}`,
+    );
+    return `\`\`\`tool_code\n${name}(${keywords.join(", ")})\n\`\`\``;
+  },
+
+  formatToolResult(name, content) {
+    return `\`\`\`tool_output\n${content}\n\`\`\``;
+  },
+};
+
+export const TOOL_CALL_DIALECTS: Record<string, ToolCallDialect> = {
+  [jsonTagDialect.name]: jsonTagDialect,
+  [xmlParameterDialect.name]: xmlParameterDialect,
+  [hermesDialect.name]: hermesDialect,
+  [pythonCallDialect.name]: pythonCallDialect,
+};
+
+/**
+ * The tools and their parameters as an indented list, nested objects included
+ */
+export function describeTools(tools: Tool[]): string {
+  return tools
+    .map((tool) => {
+      let description = `Tool: ${tool.name}\n`;
+      if (tool.description) {
+        description += `Description: ${tool.description}\n`;
+      }
+      if (tool.parameters) {
+        description += `Parameters:\n${describeProperties(tool.parameters)}`;
+      }
+      return description;
+    })
+    .join("\n");
+}
+
+function describeProperties(schema: JSONSchema7, indent = ""): string {
+  const required = schema.required ?? [];
+  return Object.entries(schema.properties ?? {})
+    .map(([name, definition]) => {
+      const property = asSchema(definition);
+      let line = `${indent}- ${name}${required.includes(name) ? " (required)" : ""}: ${schemaType(property)}`;
+      if (property.description) {
+        line += ` - ${property.description}`;
+      }
+      if (property.enum) {
+        line += ` (one of: ${property.enum.map((value) => JSON.stringify(value)).join(", ")})`;
+      }
+
+      // describe what's inside objects, and objects in arrays
+      const items = property.items
+        ? asSchema(property.items as JSONSchema7Definition)
+        : undefined;
+      const nested = property.properties
+        ? property
+        : items?.properties
+          ? items
+          : undefined;
+      return `${line}\n${nested ? describeProperties(nested, `${indent}  `) : ""}`;
+    })
+    .join("");
+}
+
+function schemaType(schema: JSONSchema7): string {
+  const type = [schema.type ?? "any"].flat().join(" | ");
+  if (type === "array" && schema.items) {
+    return `array of ${schemaType(asSchema(schema.items as JSONSchema7Definition))}`;
+  }
+  return type;
+}
+
+function asSchema(definition: JSONSchema7Definition): JSONSchema7 {
+  return typeof definition === "boolean" ? {} : definition;
+}
+
+const PYTHON_TYPES: Record<string, string> = {
+  string: "str",
+  number: "float",
+  integer: "int",
+  boolean: "bool",
+  object: "dict",
+  array: "list",
+  null: "None",
+};
+
+function pythonType(schema: JSONSchema7): string {
+  const type = [schema.type ?? "any"].flat()[0]!;
+  if (type === "array" && schema.items) {
+    return `list[${pythonType(asSchema(schema.items as JSONSchema7Definition))}]`;
+  }
+  return PYTHON_TYPES[type] ?? "Any";
+}
+
+function pythonSignature(tool: Tool): string {
+  const schema = tool.parameters ?? {};
+  const required = schema.required ?? [];
+  const properties = Object.entries(schema.properties ?? {}).map(
+    ([name, definition]) => [name, asSchema(definition)] as const,
+  );
+
+  // required parameters first, Python doesn't allow them after optional ones
+  const parameters = [
+    ...properties
+      .filter(([name]) => required.includes(name))
+      .map(([name, property]) => `${name}: ${pythonType(property)}`),
+    ...properties
+      .filter(([name]) => !required.includes(name))
+      .map(([name, property]) => `${name}: ${pythonType(property)} = None`),
+  ];
+
+  let docstring = tool.description ?? "";
+  if (properties.length) {
+    docstring += `\n\n    Args:\n${describeProperties(schema, "        ")}`;
+  }
+  return `def ${tool.name}(${parameters.join(", ")}):\n    """${docstring.trimEnd()}\n    """`;
+}
+
+function pythonLiteral(value: any): string {
+  if (value === null || value === undefined) return "None";
+  if (value === true) return "True";
+  if (value === false) return "False";
+  if (Array.isArray(value)) return `[${value.map(pythonLiteral).join(", ")}]`;
+  if (typeof value === "object") {
+    return `{${Object.entries(value)
+      .map(([key, item]) => `${JSON.stringify(key)}: ${pythonLiteral(item)}`)
+      .join(", ")}}`;
+  }
+  // JSON string escapes are valid in Python
+  return JSON.stringify(value);
+}
+
+/**
+ * Read calls like `Name(key="value", items=[1, 2])`, one after another
+ * @throws SyntaxError if the code is anything other than calls with literal arguments
+ */
+function parsePythonCalls(
+  code: string,
+): { name: string; args: Record<string, any> }[] {
+  let position = 0;
+  const skipSpace = () => {
+    while (/[\s;]/.test(code[position] ?? "")) position++;
+  };
+  const fail = (): never => {
+    throw new SyntaxError(
+      `Unexpected "${code.substring(position, position + 10)}"`,
+    );
+  };
+  const expect = (token: string) => {
+    skipSpace();
+    if (!code.startsWith(token, position)) fail();
+    position += token.length;
+  };
+
+  const readValue = (): any => {
+    skipSpace();
+    const rest = code.substring(position);
+    const string = rest.match(/^[rbuf]?("""|'''|"|')/i);
+    if (string) {
+      return readString(string[0], string[1]!);
+    }
+    if (rest[0] === "[" || rest[0] === "(") {
+      const close = rest[0] === "[" ? "]" : ")";
+      position++;
+      const items: any[] = [];
+      skipSpace();
+      while (code[position] !== close) {
+        items.push(readValue());
+        skipSpace();
+        if (code[position] === ",") position++;
+        else if (code[position] !== close) fail();
+        skipSpace();
+      }
+      position++;
+      return items;
+    }
+    if (rest[0] === "{") {
+      position++;
+      const object: Record<string, any> = {};
+      skipSpace();
+      while (code[position] !== "}") {
+        const key = readValue();
+        expect(":");
+        object[key] = readValue();
+        skipSpace();
+        if (code[position] === ",") position++;
+        else if (code[position] !== "}") fail();
+        skipSpace();
+      }
+      position++;
+      return object;
+    }
+
+    const literal = rest.match(
+      /^(True|False|None|-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/i,
+    );
+    if (!literal) fail();
+    position += literal![0].length;
+    const word = literal![0];
+    return word === "True"
+      ? true
+      : word === "False"
+        ? false
+        : word === "None"
+          ? null
+          : Number(word);
+  };
+
+  const readString = (prefix: string, quote: string): string => {
+    const start = position + prefix.length;
+    // the closing quote is the first one that isn't escaped
+    let close = code.indexOf(quote, start);
+    while (close !== -1 && isEscaped(code, close)) {
+      close = code.indexOf(quote, close + 1);
+    }
+    if (close === -1) fail();
+    position = close + quote.length;
+    const raw = code.substring(start, close);
+    return /r/i.test(prefix) ? raw : unescapePython(raw);
+  };
+
+  const calls: { name: string; args: Record<string, any> }[] = [];
+  skipSpace();
+  while (position < code.length) {
+    const name = code.substring(position).match(/^[A-Za-z_][\w.]*/)?.[0];
+    if (!name) fail();
+    position += name!.length;
+    expect("(");
+
+    const args: Record<string, any> = {};
+    skipSpace();
+    while (code[position] !== ")") {
+      const key = code.substring(position).match(/^(\w+)\s*=/);
+      if (!key) {
+        throw new SyntaxError(
+          `Positional arguments aren't supported, pass ${name}'s arguments by keyword`,
+        );
+      }
+      position += key[0].length;
+      args[key[1]!] = readValue();
+      skipSpace();
+      if (code[position] === ",") position++;
+      else if (code[position] !== ")") fail();
+      skipSpace();
+    }
+    position++;
+    calls.push({ name: name!, args });
+    skipSpace();
+  }
+  if (!calls.length) throw new SyntaxError("No function calls");
+  return calls;
+}
+
+function isEscaped(text: string, index: number): boolean {
+  let backslashes = 0;
+  while (text[index - 1 - backslashes] === "\\") backslashes++;
+  return backslashes % 2 === 1;
+}
+
+function unescapePython(raw: string): string {
+  return raw.replace(
+    /\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/gs,
+    (_, escape: string) => {
+      switch (escape[0]) {
+        case "n":
+          return "\n";
+        case "t":
+          return "\t";
+        case "r":
+          return "\r";
+        case "u":
+        case "x":
+          return String.fromCharCode(parseInt(escape.substring(1), 16));
+        case "\n":
+          return "";
+        default:
+          return escape;
+      }
+    },
+  );
+}
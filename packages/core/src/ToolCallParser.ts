@@ -0,0 +1,325 @@
+import { ToolCall } from "./ToolCall.ts";
+import { findJsonEnd, parseJsonLenient } from "./jsonUtils.ts";
+
+/**
+ * A tool call that was found in a reply but couldn't be read. Its placeholder
+ * ToolCall is in the result's toolCalls so the model can be told what went wrong.
+ */
+export interface ToolCallParseFailure {
+  toolCall: ToolCall;
+  error: string;
+  // the text of the call
+  raw: string;
+}
+
+export interface ToolCallParseResult {
+  // in the order they appear, including the placeholders of failed calls
+  toolCalls: ToolCall[];
+  failures: ToolCallParseFailure[];
+  // the reply without the tool calls
+  content: string;
+}
+
+/**
+ * Markers that open a tool call, used to hide calls while a reply streams.
+ * Fenced JSON isn't included, it can't be told apart from an example until it ends.
+ */
+export const TOOL_CALL_OPENERS = [
+  "<toolcall>",
+  "<tool_call>",
+  "<function=",
+  "[TOOL_CALLS]",
+  "<|python_tag|>",
+  "```tool_code",
+];
+
+// where a tool call may begin, in any of the supported formats
+const TOOL_CALL_START =
+  /<tool_?call>|<function=|\[TOOL_CALLS\]|<\|python_tag\|>|```(?:json|tool_call|tool_code)?[ \t]*\n\s*(?=[{[])/gi;
+
+type Block = { end: number; calls: ParsedCall[] };
+type ParsedCall =
+  | { name: string; args: Record<string, any>; id?: string }
+  | { error: string; name?: string; raw: string };
+
+/**
+ * Find tool calls written as text, in the formats models are commonly trained on:
+ *
+ * - `<ToolCall>` / Hermes `<tool_call>` with a JSON object, a list of them or XML parameters
+ * - Qwen `<function=name><parameter=key>value</parameter></function>`
+ * - Mistral `[TOOL_CALLS][{...}]` and `[TOOL_CALLS]name[ARGS]{...}`
+ * - Llama `<|python_tag|>{...}`
+ * - fenced JSON with a name and arguments
+ *
+ * JSON is read with bracket matching, so nested objects are fine, and
+ * trailing commas or unbalanced brackets are repaired.
+ */
+export function parseToolCalls(text: string): ToolCallParseResult {
+  const result: ToolCallParseResult = {
+    toolCalls: [],
+    failures: [],
+    content: "",
+  };
+  let content = "";
+  let position = 0;
+
+  const start = new RegExp(TOOL_CALL_START);
+  let match: RegExpExecArray | null;
+  while ((match = start.exec(text))) {
+    const block = readBlock(text, match);
+    if (!block) continue; // e.g. fenced JSON that isn't a tool call
+
+    content += text.substring(position, match.index);
+    position = start.lastIndex = Math.max(block.end, start.lastIndex);
+
+    for (const call of block.calls) {
+      const index = result.toolCalls.length;
+      if ("error" in call) {
+        const toolCall = new ToolCall(
+          `invalid-${index}-${Date.now()}`,
+          call.name ?? "unknown",
+        );
+        result.toolCalls.push(toolCall);
+        result.failures.push({ toolCall, error: call.error, raw: call.raw });
+      } else {
+        result.toolCalls.push(
+          new ToolCall(
+            call.id ?? `${call.name}-${index}-${Date.now()}`,
+            call.name,
+            call.args,
+          ),
+        );
+      }
+    }
+  }
+
+  result.content = (content + text.substring(position)).trim();
+  return result;
+}
+
+function readBlock(text: string, match: RegExpExecArray): Block | undefined {
+  const opener = match[0];
+  const after = match.index + opener.length;
+
+  if (/^<tool_?call>$/i.test(opener)) {
+    const { body, end } = readUntil(text, after, /<\/tool_?call>/i);
+    return { end, calls: parseBody(body) };
+  }
+
+  if (opener.toLowerCase() === "<function=") {
+    const { end } = readUntil(text, after, /<\/function>/i);
+    return { end, calls: parseFunctionTags(text.substring(match.index, end)) };
+  }
+
+  if (opener === "[TOOL_CALLS]") {
+    return readMistralCalls(text, after);
+  }
+
+  if (opener === "<|python_tag|>") {
+    const { body, end } = readUntil(text, after, /<\|eo[mt]_id\|>/);
+    return { end, calls: parseBody(body) };
+  }
+
+  // fenced JSON only counts when everything in it is a tool call
+  const { body, end } = readUntil(text, after, /```/);
+  try {
+    const values = [parseJsonLenient(body)].flat();
+    if (values.length && values.every(looksLikeToolCall)) {
+      return { end, calls: values.map((value) => readCall(value, body)) };
+    }
+  } catch {
+    // not JSON, so not a tool call
+  }
+  return undefined;
+}
+
+/**
+ * The text from `start` up to a closing marker, or the rest of the text if it never closes
+ */
+function readUntil(text: string, start: number, closer: RegExp) {
+  const rest = text.substring(start);
+  const close = rest.match(closer);
+  if (!close) {
+    return { body: rest.trim(), end: text.length };
+  }
+  return {
+    body: rest.substring(0, close.index).trim(),
+    end: start + close.index! + close[0].length,
+  };
+}
+
+function parseBody(body: string): ParsedCall[] {
+  if (/^<function=/i.test(body)) {
+    return parseFunctionTags(body);
+  }
+  if (/^[{[]/.test(body)) {
+    return parseJsonCalls(body);
+  }
+  if (body.startsWith("<") || /<parameter/i.test(body)) {
+    return [parseXmlCall(body)];
+  }
+  return [
+    {
+      error: "Expected a JSON object with the tool name and parameters",
+      raw: body,
+    },
+  ];
+}
+
+/**
+ * One or more JSON values, each a call or a list of calls, separated by whitespace, commas or semicolons
+ */
+function parseJsonCalls(body: string): ParsedCall[] {
+  const calls: ParsedCall[] = [];
+  let position = 0;
+  while (position < body.length) {
+    const valueStart = body.substring(position).search(/[{[]/);
+    if (valueStart === -1) break;
+
+    const start = position + valueStart;
+    const end = findJsonEnd(body, start);
+    const raw = body.substring(start, end);
+    try {
+      const values = [parseJsonLenient(raw)].flat();
+      calls.push(...values.map((value) => readCall(value, raw)));
+    } catch (error: any) {
+      calls.push({
+        error: `Invalid JSON: ${error.message}`,
+        name: raw.match(/"(?:name|tool)"\s*:\s*"([^"]+)"/)?.[1],
+        raw,
+      });
+    }
+    position = end;
+  }
+  return calls;
+}
+
+function readCall(value: any, raw: string): ParsedCall {
+  const call = value?.function ?? value;
+  const name = call?.name ?? call?.tool ?? call?.tool_name;
+  let args =
+    call?.arguments ?? call?.parameters ?? call?.args ?? call?.input ?? {};
+
+  if (typeof name !== "string" || !name) {
+    return { error: "The tool name is missing", raw };
+  }
+  if (typeof args === "string") {
+    try {
+      args = parseJsonLenient(args);
+    } catch (error: any) {
+      return {
+        error: `Invalid JSON in the arguments: ${error.message}`,
+        name,
+        raw,
+      };
+    }
+  }
+  if (typeof args !== "object" || args === null || Array.isArray(args)) {
+    return { error: "The parameters must be a JSON object", name, raw };
+  }
+  return {
+    name,
+    args,
+    id: typeof value.id === "string" ? value.id : undefined,
+  };
+}
+
+function looksLikeToolCall(value: any): boolean {
+  const call = value?.function ?? value;
+  return (
+    typeof call === "object" &&
+    call !== null &&
+    typeof (call.name ?? call.tool) === "string" &&
+    ["arguments", "parameters", "args"].some((key) => key in call)
+  );
+}
+
+/**
+ * Qwen's format, `<parameter=...>` values are kept as text, validation converts them to the schema's types
+ */
+function parseFunctionTags(body: string): ParsedCall[] {
+  const calls: ParsedCall[] = [];
+  for (const match of body.matchAll(
+    /<function=([^>\s]+)>(.*?)(?:<\/function>|$)/gis,
+  )) {
+    const args: Record<string, any> = {};
+    for (const param of match[2]!.matchAll(
+      /<parameter=([^>\s]+)>(.*?)(?:<\/parameter>|(?=<parameter=)|$)/gis,
+    )) {
+      args[param[1]!] = param[2]!.replace(/^\n/, "").replace(/\n$/, "");
+    }
+    calls.push({ name: match[1]!, args });
+  }
+  return calls.length
+    ? calls
+    : [
+        {
+          error: "Expected <function=name> with <parameter=name> tags",
+          raw: body,
+        },
+      ];
+}
+
+/**
+ * `<ToolName>name</ToolName><parameter name="key">value</parameter>` and
+ * `<key>..</key><value>..</value>` pairs
+ */
+function parseXmlCall(body: string): ParsedCall {
+  const match = body.match(
+    /^\s*(?:<Tool_?Name>)?(.+?)(?:<\/Tool_?Name>)?\s*(<.+>.+<\/.*>)\s*$/is,
+  );
+  if (!match) {
+    return {
+      error: "Expected the tool name followed by its parameters",
+      raw: body,
+    };
+  }
+
+  const args: Record<string, any> = {};
+  for (const param of match[2]!.matchAll(
+    /<(?:parameter name="|\w*?key>)(.+?)(?:<\/\w*?key>\s*<\w*?value>|">)(.+?)<\/(?:parameter|\w*?value)>/gis,
+  )) {
+    args[param[1]!] = param[2]!;
+  }
+  return { name: match[1]!.trim(), args };
+}
+
+/**
+ * `[TOOL_CALLS][{"name": ..., "arguments": {...}}]` or `[TOOL_CALLS]name[ARGS]{...}`
+ */
+function readMistralCalls(text: string, start: number): Block {
+  const rest = text.substring(start);
+  const offset = rest.length - rest.trimStart().length;
+
+  if (/^\s*[{[]/.test(rest)) {
+    const end = findJsonEnd(text, start + offset);
+    return { end, calls: parseJsonCalls(text.substring(start, end)) };
+  }
+
+  const named = rest.match(/^\s*([\w.-]+)\[ARGS\]\s*/);
+  if (named && /^[{[]/.test(rest.substring(named[0].length))) {
+    const argsStart = start + named[0].length;
+    const end = findJsonEnd(text, argsStart);
+    const raw = text.substring(argsStart, end);
+    try {
+      return {
+        end,
+        calls: [
+          readCall({ name: named[1], arguments: parseJsonLenient(raw) }, raw),
+        ],
+      };
+    } catch (error: any) {
+      return {
+        end,
+        calls: [
+          { error: `Invalid JSON: ${error.message}`, name: named[1], raw },
+        ],
+      };
+    }
+  }
+
+  return {
+    end: text.length,
+    calls: [{ error: "Expected a JSON list of tool calls", raw: rest.trim() }],
+  };
+}
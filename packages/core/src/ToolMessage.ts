@@ -1,10 +1,16 @@
 import { Message } from "./Message.ts";
+import type { ToolResult } from "./ToolResult.ts";
 
 export class ToolMessage extends Message {
   constructor(
     content: string,
     public toolCallId: string,
+    // the full result, content is what gets sent to the model
+    public result?: ToolResult,
   ) {
     super("tool", content);
+    if (result?.parts?.length) {
+      this.parts = [{ type: "text", text: content }, ...result.parts];
+    }
   }
 }
@@ -0,0 +1,61 @@
+import type { ContentPart } from "./ContentPart.ts";
+
+/**
+ * The outcome of a tool call.
+ * `content` is what the model sees, `data` is for programmatic callers.
+ */
+export interface ToolResult<D = any> {
+  ok: boolean;
+  content: string;
+  // images or files to show the model along with the content
+  parts?: ContentPart[];
+  data?: D;
+  error?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Create a successful tool result
+ * @param content - Text shown to the model
+ * @param data - Structured data for programmatic callers
+ * @param metadata - Additional information about the call (timings, sizes, etc.)
+ */
+export function toolSuccess<D>(
+  content: string,
+  data?: D,
+  metadata?: Record<string, any>,
+): ToolResult<D> {
+  return { ok: true, content, data, metadata };
+}
+
+/**
+ * Create a failed tool result. The model sees the error prefixed with "Error:"
+ * @param error - Description of what went wrong
+ * @param metadata - Additional information about the call
+ */
+export function toolError(
+  error: string,
+  metadata?: Record<string, any>,
+): ToolResult<undefined> {
+  return { ok: false, content: `Error: ${error}`, error, metadata };
+}
+
+/**
+ * Normalize a tool callback's return value to a ToolResult.
+ * Plain strings starting with "Error" are treated as failures.
+ */
+export function toToolResult<D>(value: string | ToolResult<D>): ToolResult<D> {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  if (/^\s*Error\b/i.test(value)) {
+    return {
+      ok: false,
+      content: value,
+      error: value.replace(/^\s*Error\b:?\s*/i, ""),
+    };
+  }
+
+  return { ok: true, content: value };
+}
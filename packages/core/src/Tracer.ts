@@ -0,0 +1,200 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+
+// agent turn -> LLM call -> tool call
+export type SpanKind = "agent" | "llm" | "tool";
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A finished span, as passed to exporters
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  // milliseconds since the epoch
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  status: "ok" | "error";
+  error?: string;
+}
+
+export interface SpanExporter {
+  export(span: SpanData): void;
+}
+
+/**
+ * A timed operation. Spans are exported when they end.
+ */
+export class Span {
+  public readonly traceId: string;
+  public readonly spanId: string = randomBytes(8).toString("hex");
+  public readonly startTime: number = Date.now();
+  public attributes: SpanAttributes = {};
+  protected ended = false;
+
+  constructor(
+    protected tracer: Tracer,
+    public readonly name: string,
+    public readonly kind: SpanKind,
+    public readonly parent?: Span,
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+  }
+
+  public setAttributes(attributes: Record<string, any>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === undefined || value === null) continue;
+      this.attributes[key] =
+        typeof value === "object" ? JSON.stringify(value) : value;
+    }
+    return this;
+  }
+
+  /**
+   * End the span and export it. Only the first call has any effect.
+   * @param error - Marks the span as failed
+   */
+  public end(error?: unknown): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.tracer.export({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parent?.spanId,
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime: Date.now(),
+      attributes: this.attributes,
+      status: error ? "error" : "ok",
+      error: error
+        ? error instanceof Error
+          ? error.message
+          : String(error)
+        : undefined,
+    });
+  }
+}
+
+/**
+ * Creates spans and hands finished spans to its exporters. Without exporters spans are discarded.
+ */
+export class Tracer {
+  constructor(public exporters: SpanExporter[] = []) {}
+
+  public startSpan(
+    name: string,
+    kind: SpanKind,
+    attributes: Record<string, any> = {},
+    parent?: Span,
+  ): Span {
+    return new Span(this, name, kind, parent).setAttributes(attributes);
+  }
+
+  public export(span: SpanData): void {
+    for (const exporter of this.exporters) {
+      exporter.export(span);
+    }
+  }
+}
+
+/**
+ * Appends each span to a file as one JSON object per line
+ */
+export class JsonLinesSpanExporter implements SpanExporter {
+  constructor(protected filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  public export(span: SpanData): void {
+    fs.appendFileSync(this.filePath, `${JSON.stringify(span)}\n`);
+  }
+}
+
+/**
+ * Appends each span to a file in the OpenTelemetry protocol's JSON encoding,
+ * one ExportTraceServiceRequest per line, as read by the collector's otlpjsonfile receiver
+ */
+export class OtlpFileSpanExporter implements SpanExporter {
+  constructor(
+    protected filePath: string,
+    protected serviceName: string = "fraimwork",
+  ) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  public export(span: SpanData): void {
+    const request = {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toOtlpAttributes({ "service.name": this.serviceName }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: "fraimwork" },
+              spans: [
+                {
+                  traceId: span.traceId,
+                  spanId: span.spanId,
+                  parentSpanId: span.parentSpanId,
+                  name: span.name,
+                  // LLM calls are requests to another service, everything else is internal
+                  kind: span.kind === "llm" ? 3 : 1,
+                  startTimeUnixNano: `${span.startTime}000000`,
+                  endTimeUnixNano: `${span.endTime}000000`,
+                  attributes: toOtlpAttributes({
+                    "fraimwork.span.kind": span.kind,
+                    ...span.attributes,
+                  }),
+                  status: span.error
+                    ? { code: 2, message: span.error }
+                    : { code: 1 },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    fs.appendFileSync(this.filePath, `${JSON.stringify(request)}\n`);
+  }
+}
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "boolean"
+        ? { boolValue: value }
+        : typeof value === "number"
+          ? Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value }
+          : { stringValue: value },
+  }));
+}
+
+let defaultTracer = new Tracer();
+
+/**
+ * The tracer used by agents that weren't given one
+ */
+export function getTracer(): Tracer {
+  return defaultTracer;
+}
+
+/**
+ * Replace the default tracer. Agents pick it up when they are created.
+ */
+export function setTracer(tracer: Tracer): void {
+  defaultTracer = tracer;
+}
@@ -0,0 +1,86 @@
+/**
+ * Token usage of one or more LLM requests
+ */
+export interface Usage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // prompt tokens served from the provider's prompt cache
+  cachedTokens?: number;
+  // true when any of the counts were estimated rather than reported by the provider
+  estimated?: boolean;
+  // cost in USD, when the model's pricing is known
+  cost?: number;
+}
+
+/**
+ * Model pricing in USD per million tokens
+ */
+export interface Pricing {
+  input: number;
+  output: number;
+}
+
+export function emptyUsage(): Usage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+/**
+ * Add usage records together
+ * @returns The combined usage, or undefined if none of the records are defined
+ */
+export function addUsage(...usages: (Usage | undefined)[]): Usage | undefined {
+  const defined = usages.filter((usage): usage is Usage => !!usage);
+  if (!defined.length) return undefined;
+
+  return defined.reduce((total, usage) => ({
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    cachedTokens:
+      total.cachedTokens === undefined && usage.cachedTokens === undefined
+        ? undefined
+        : (total.cachedTokens ?? 0) + (usage.cachedTokens ?? 0),
+    estimated: total.estimated || usage.estimated || undefined,
+    cost:
+      total.cost === undefined && usage.cost === undefined
+        ? undefined
+        : (total.cost ?? 0) + (usage.cost ?? 0),
+  }));
+}
+
+/**
+ * Calculate the cost of a request from per-million-token pricing
+ */
+export function calculateCost(usage: Usage, pricing: Pricing): number {
+  return (
+    (usage.promptTokens * pricing.input +
+      usage.completionTokens * pricing.output) /
+    1000000
+  );
+}
+
+/**
+ * Accumulates usage per model. Trackers can be chained so an agent's usage
+ * also rolls up into a session-wide tracker.
+ */
+export class UsageTracker {
+  public total: Usage = emptyUsage();
+  public byModel: Record<string, Usage> = {};
+  public requests: number = 0;
+
+  constructor(public parent?: UsageTracker) {}
+
+  public record(model: string, usage: Usage): void {
+    this.total = addUsage(this.total, usage)!;
+    this.byModel[model] = addUsage(this.byModel[model], usage)!;
+    this.requests++;
+    this.parent?.record(model, usage);
+  }
+
+  public reset(): void {
+    this.total = emptyUsage();
+    this.byModel = {};
+    this.requests = 0;
+  }
+}
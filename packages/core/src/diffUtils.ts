@@ -0,0 +1,164 @@
+import * as fs from "fs/promises";
+
+// above this many line pairs the changed region is shown as a single replacement
+const MAX_DIFF_CELLS = 4000000;
+
+type DiffLine = [" " | "-" | "+", string];
+
+/**
+ * Creates a unified diff of two texts
+ * @param oldText - The original text
+ * @param newText - The changed text
+ * @param filePath - Path shown in the diff header
+ * @param context - Number of unchanged lines shown around each change
+ * @returns The diff, or an empty string if the texts are equal
+ */
+export function createDiff(
+  oldText: string,
+  newText: string,
+  filePath: string = "file",
+  context: number = 3,
+): string {
+  if (oldText === newText) return "";
+
+  const oldLines = oldText === "" ? [] : oldText.split("\n");
+  const newLines = newText === "" ? [] : newText.split("\n");
+
+  // most edits touch a small region, so only diff what's between the common prefix and suffix
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const lines: DiffLine[] = [
+    ...oldLines.slice(0, prefix).map((line): DiffLine => [" ", line]),
+    ...diffLines(
+      oldLines.slice(prefix, oldLines.length - suffix),
+      newLines.slice(prefix, newLines.length - suffix),
+    ),
+    ...oldLines
+      .slice(oldLines.length - suffix)
+      .map((line): DiffLine => [" ", line]),
+  ];
+
+  return [`--- a/${filePath}`, `+++ b/${filePath}`, ...hunks(lines, context)]
+    .join("\n")
+    .concat("\n");
+}
+
+/**
+ * Creates a diff of a change to a file without making the change
+ * @param filePath - The file, which doesn't need to exist yet
+ * @param change - Returns the new content of the file given its current content
+ */
+export async function diffFile(
+  filePath: string,
+  change: (content: string) => string,
+): Promise<string> {
+  let oldContent = "";
+  try {
+    oldContent = (await fs.readFile(filePath, "utf-8")).replace(/\r\n/g, "\n");
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+  }
+
+  return createDiff(oldContent, change(oldContent), filePath);
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const removed = oldLines.map((line): DiffLine => ["-", line]);
+  const added = newLines.map((line): DiffLine => ["+", line]);
+  if (
+    !oldLines.length ||
+    !newLines.length ||
+    oldLines.length * newLines.length > MAX_DIFF_CELLS
+  ) {
+    return [...removed, ...added];
+  }
+
+  // lengths[i][j] is the LCS length of oldLines[i..] and newLines[j..]
+  const lengths = Array.from(
+    { length: oldLines.length + 1 },
+    () => new Uint32Array(newLines.length + 1),
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i]![j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push([" ", oldLines[i]!]);
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      result.push(removed[i++]!);
+    } else {
+      result.push(added[j++]!);
+    }
+  }
+
+  return [...result, ...removed.slice(i), ...added.slice(j)];
+}
+
+/**
+ * Group changed lines into hunks with surrounding context
+ */
+function hunks(lines: DiffLine[], context: number): string[] {
+  const output: string[] = [];
+  const changes = lines
+    .map(([type], index) => (type === " " ? -1 : index))
+    .filter((index) => index !== -1);
+
+  let index = 0;
+  while (index < changes.length) {
+    const start = Math.max(0, changes[index]! - context);
+    let end = changes[index]!;
+    // merge changes whose context overlaps into the same hunk
+    while (
+      index + 1 < changes.length &&
+      changes[index + 1]! - end <= context * 2
+    ) {
+      end = changes[++index]!;
+    }
+    end = Math.min(lines.length, end + context + 1);
+    index++;
+
+    const before = lines.slice(0, start);
+    const hunk = lines.slice(start, end);
+    const oldStart = before.filter(([type]) => type !== "+").length + 1;
+    const newStart = before.filter(([type]) => type !== "-").length + 1;
+    const oldCount = hunk.filter(([type]) => type !== "+").length;
+    const newCount = hunk.filter(([type]) => type !== "-").length;
+
+    output.push(
+      `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`,
+      ...hunk.map(([type, line]) => `${type}${line}`),
+    );
+  }
+
+  return output;
+}
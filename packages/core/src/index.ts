@@ -1,10 +1,35 @@
+export * from "./AbortError.ts";
 export * from "./Agent.ts";
+export * from "./AgentHooks.ts";
+export * from "./Approval.ts";
+export * from "./CachingLLMService.ts";
+export * from "./ContentPart.ts";
+export * from "./ContextManager.ts";
 export * from "./FailoverAgent.ts";
 export * from "./LLMService.ts";
+export * from "./Logger.ts";
 export * from "./Message.ts";
+export * from "./MockLLMService.ts";
+export * from "./PartialJsonParser.ts";
+export * from "./Reasoning.ts";
+export * from "./RecordingLLMService.ts";
+export * from "./RetryingLLMService.ts";
+export * from "./Session.ts";
+export * from "./SessionStore.ts";
 export * from "./StreamablePromise.ts";
+export * from "./StreamEvent.ts";
 export * from "./Tool.ts";
 export * from "./ToolCall.ts";
+export * from "./ToolCallDialect.ts";
+export * from "./ToolCallParser.ts";
 export * from "./ToolMessage.ts";
+export * from "./ToolResult.ts";
+export * from "./Tokenizer.ts";
+export * from "./Tracer.ts";
+export * from "./Usage.ts";
 export * from "./utils.ts";
 export * from "./pathUtils.ts";
+export * from "./diffUtils.ts";
+export * from "./jsonUtils.ts";
+export * from "./schemaUtils.ts";
+export * from "./streamUtils.ts";
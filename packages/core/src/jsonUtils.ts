@@ -0,0 +1,99 @@
+/**
+ * Find the end of the JSON object or array starting at `start`, respecting strings
+ * @returns The index after the closing bracket, or the end of the text if it never closes
+ */
+export function findJsonEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]!;
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return text.length;
+}
+
+/**
+ * Fix the mistakes models make most often in JSON: trailing commas, missing or
+ * extra closing brackets and an unterminated string at the end
+ */
+export function repairJson(text: string): string {
+  let repaired = "";
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text.trim()) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      repaired += char;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      closers.push(char === "{" ? "}" : "]");
+    } else if (char === "}" || char === "]") {
+      if (!closers.includes(char)) continue; // nothing to close
+      // close whatever was left open inside, e.g. a missing "]" before "}"
+      while (closers.length) {
+        repaired = repaired.replace(/,\s*$/, "");
+        const closer = closers.pop()!;
+        if (closer === char) break;
+        repaired += closer;
+      }
+    }
+    repaired += char;
+  }
+
+  if (inString) {
+    repaired += '"';
+  }
+  while (closers.length) {
+    repaired = repaired.replace(/,\s*$/, "") + closers.pop();
+  }
+  return repaired;
+}
+
+/**
+ * JSON.parse, falling back to repairJson when the text isn't valid JSON
+ * @throws the original parse error if the repaired text doesn't parse either
+ */
+export function parseJsonLenient(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    try {
+      return JSON.parse(repairJson(text));
+    } catch {
+      throw error;
+    }
+  }
+}
@@ -39,3 +39,39 @@ export async function validatePaths(
     filePaths.map((filePath) => validatePath(filePath, workingDir)),
   );
 }
+
+/**
+ * Tests a path against a glob pattern. `**` matches any number of directories,
+ * `*` and `?` match within a single path segment. Patterns without a slash
+ * match the file name in any directory, like .gitignore.
+ * @param pattern - The glob pattern, e.g. "src/**\/*.ts" or ".env*"
+ * @param filePath - The path to test, relative to the working directory
+ * @param workingDir - The working directory (defaults to process.cwd())
+ */
+export function matchesGlob(
+  pattern: string,
+  filePath: string,
+  workingDir: string = process.cwd(),
+): boolean {
+  const relativePath = path
+    .relative(workingDir, path.resolve(workingDir, filePath))
+    .split(path.sep)
+    .join("/");
+  const target = pattern.includes("/")
+    ? relativePath
+    : path.posix.basename(relativePath);
+
+  const source = pattern
+    .replace(/^\.\//, "")
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === "**/") return "(?:.*/)?";
+      if (part === "**") return ".*";
+      if (part === "*") return "[^/]*";
+      if (part === "?") return "[^/]";
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`^${source}$`).test(target);
+}
@@ -0,0 +1,217 @@
+import { JSONSchema7Definition } from "json-schema";
+
+// ============================================================================
+// SCHEMA TYPES
+// ============================================================================
+
+type Prettify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * The TypeScript type described by a JSON schema literal
+ */
+export type FromSchema<S> = S extends { enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: "string" }
+    ? string
+    : S extends { type: "number" | "integer" }
+      ? number
+      : S extends { type: "boolean" }
+        ? boolean
+        : S extends { type: "array"; items: infer I }
+          ? FromSchema<I>[]
+          : S extends { type: "array" }
+            ? any[]
+            : S extends { type: "object"; properties: infer P }
+              ? SchemaObject<
+                  P,
+                  S extends { required: readonly (infer K)[] } ? K : never
+                >
+              : any;
+
+type SchemaObject<P, R> = Prettify<
+  { [K in keyof P & R]: FromSchema<P[K]> } & {
+    [K in Exclude<keyof P, R>]?: FromSchema<P[K]>;
+  }
+>;
+
+/**
+ * Tool argument type inferred from a tool's parameters and required keys
+ */
+export type ToolArgs<P, R> = 0 extends 1 & P ? any : SchemaObject<P, R>;
+
+// ============================================================================
+// SCHEMA VALIDATION
+// ============================================================================
+
+export interface SchemaIssue {
+  // dot-separated path to the offending value, e.g. "edits.0.oldString"
+  path: string;
+  message: string;
+}
+
+/**
+ * Validates a value against a JSON schema, coercing strings where the schema
+ * expects another type. Text tool-call parsers produce every value as a string.
+ * Supports the subset of JSON schema used by tool parameters.
+ * @param schema - The schema to validate against
+ * @param value - The value to validate
+ * @param path - Path of the value, used in issue messages
+ * @returns The coerced value and any issues found
+ */
+export function validateSchema(
+  schema: JSONSchema7Definition,
+  value: any,
+  path: string = "",
+): { value: any; issues: SchemaIssue[] } {
+  if (typeof schema === "boolean") {
+    return {
+      value,
+      issues: schema ? [] : [{ path, message: "is not allowed" }],
+    };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const types = schema.type
+    ? Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type]
+    : [];
+
+  if (types.length && !types.some((type) => matchesType(type, value))) {
+    const coerced = types
+      .map((type) => coerce(type, value))
+      .find((candidate) => candidate !== undefined);
+
+    if (coerced === undefined) {
+      return {
+        value,
+        issues: [
+          {
+            path,
+            message: `expected ${types.join(" | ")}, got ${describeType(value)}`,
+          },
+        ],
+      };
+    }
+    value = coerced;
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    issues.push({
+      path,
+      message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+    });
+  }
+
+  if (Array.isArray(value) && schema.items && !Array.isArray(schema.items)) {
+    value = value.map((item, index) => {
+      const result = validateSchema(
+        schema.items as JSONSchema7Definition,
+        item,
+        joinPath(path, String(index)),
+      );
+      issues.push(...result.issues);
+      return result.value;
+    });
+  }
+
+  if (isPlainObject(value) && (schema.properties || schema.required)) {
+    value = { ...value };
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: "is required" });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(
+      schema.properties ?? {},
+    )) {
+      if (value[key] === undefined) continue;
+      const result = validateSchema(
+        propertySchema,
+        value[key],
+        joinPath(path, key),
+      );
+      issues.push(...result.issues);
+      value[key] = result.value;
+    }
+  }
+
+  return { value, issues };
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && !Number.isNaN(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Convert a string value to the given schema type
+ * @returns The converted value, or undefined if it cannot be converted
+ */
+function coerce(type: string, value: any): any {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (typeof value !== "string") {
+    return type === "string" && typeof value !== "object"
+      ? String(value)
+      : undefined;
+  }
+
+  const trimmed = value.trim();
+  switch (type) {
+    case "number":
+    case "integer": {
+      const number = trimmed === "" ? NaN : Number(trimmed);
+      return matchesType(type, number) ? number : undefined;
+    }
+    case "boolean":
+      if (trimmed === "true") return true;
+      if (trimmed === "false") return false;
+      return undefined;
+    case "null":
+      return trimmed === "null" ? null : undefined;
+    case "array":
+    case "object":
+      try {
+        const parsed = JSON.parse(trimmed);
+        return matchesType(type, parsed) ? parsed : undefined;
+      } catch {
+        return undefined;
+      }
+    default:
+      return undefined;
+  }
+}
+
+function describeType(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,52 @@
+/**
+ * The events of a server-sent event stream, with their data parsed as JSON
+ */
+export async function* readServerSentEvents(
+  body: AsyncIterable<Uint8Array>,
+): AsyncGenerator<{ event: string; data: any }> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let separator: RegExpMatchArray | null;
+    // events are separated by a blank line
+    while ((separator = buffer.match(/\r?\n\r?\n/))) {
+      const raw = buffer.substring(0, separator.index);
+      buffer = buffer.substring(separator.index! + separator[0].length);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of raw.split(/\r?\n/)) {
+        if (line.startsWith("event:")) {
+          event = line.substring(6).trim();
+        } else if (line.startsWith("data:")) {
+          data.push(line.substring(5).replace(/^ /, ""));
+        }
+      }
+      if (data.length) {
+        yield { event, data: JSON.parse(data.join("\n")) };
+      }
+    }
+  }
+}
+
+/**
+ * The objects of a newline-delimited JSON stream
+ */
+export async function* readJsonLines<T = any>(
+  body: AsyncIterable<Uint8Array>,
+): AsyncGenerator<T> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
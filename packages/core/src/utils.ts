@@ -1,3 +1,5 @@
+import { AbortError } from "./AbortError.ts";
+
 /**
  * Debug utility function that prints objects with unlimited depth
  * and returns the input for chaining.
@@ -17,10 +19,54 @@ export function d<T extends any[]>(...args: T): any {
 /**
  * Sleep for a specified number of milliseconds
  * @param ms - Number of milliseconds to sleep
+ * @param signal - Cuts the sleep short with an AbortError
  * @returns Promise that resolves after the specified time
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const abort = () => {
+      clearTimeout(timeout);
+      reject(new AbortError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+/**
+ * Map over items with an async function, running at most `limit` at a time
+ * @param items - Items to map over
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async function to apply to each item
+ * @returns Promise that resolves to the results in the same order as items
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker),
+  );
+
+  return results;
 }
 
 // ============================================================================
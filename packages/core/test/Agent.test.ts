@@ -0,0 +1,163 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  Agent,
+  Message,
+  MockLLMService,
+  SummarizingContextManager,
+  Tool,
+  ToolMessage,
+} from "../src/index.ts";
+
+class TestAgent extends Agent {
+  public readonly systemPrompt = "You help with files.";
+  public tools = [
+    new Tool(
+      {
+        name: "ReadFile",
+        description: "Read a file",
+        parameters: { path: { type: "string" } },
+        required: ["path"],
+      },
+      async ({ path }) => `contents of ${path}`,
+    ),
+  ];
+}
+
+describe("Agent", () => {
+  it("runs a tool round and sends the result back to the model", async () => {
+    const service = new MockLLMService([
+      {
+        content: "Reading it.",
+        toolCalls: [{ name: "ReadFile", args: { path: "a.ts" }, id: "call-1" }],
+      },
+      { content: "a.ts is empty.", chunks: ["a.ts ", "is empty."] },
+    ]);
+    const agent = new TestAgent({ name: "mock", service });
+
+    const reply = agent.send(new Message("user", "What is in a.ts?"));
+    const events: string[] = [];
+    for await (const event of reply) {
+      if (event.type === "text") events.push(`text ${event.text}`);
+      if (event.type === "toolResult") {
+        events.push(`result ${event.toolCall.result?.content}`);
+      }
+    }
+    const message = await reply;
+
+    expect(events).toEqual([
+      "text Reading it.",
+      "result contents of a.ts",
+      "text a.ts ",
+      "text is empty.",
+    ]);
+    expect(message.content).toBe("Reading it.\na.ts is empty.");
+    expect(message.toolCalls).toHaveLength(1);
+
+    // the second request carries the call and its result
+    expect(service.requests).toHaveLength(2);
+    const followUp = service.requests[1]!.messages;
+    expect(followUp[0]).toMatchObject({
+      role: "system",
+      content: "You help with files.",
+    });
+    expect(followUp.at(-2)!.toolCalls![0]).toMatchObject({
+      id: "call-1",
+      name: "ReadFile",
+    });
+    const result = followUp.at(-1) as ToolMessage;
+    expect(result).toBeInstanceOf(ToolMessage);
+    expect(result.toolCallId).toBe("call-1");
+    expect(result.content).toBe("contents of a.ts");
+    expect(service.requests[1]!.tools).toBe(agent.tools);
+  });
+
+  it("parses text tool calls when the model needs it", async () => {
+    const service = new MockLLMService([
+      '<ToolCall>{"name": "ReadFile", "arguments": {"path": "b.ts"}}</ToolCall>',
+      "Done.",
+    ]);
+    const agent = new TestAgent({
+      name: "mock",
+      service,
+      parseToolCalls: true,
+    });
+
+    const message = await agent.send(new Message("user", "Read b.ts"), false);
+
+    expect(message.toolCalls![0]).toMatchObject({
+      name: "ReadFile",
+      args: { path: "b.ts" },
+      result: { ok: true, content: "contents of b.ts" },
+    });
+    // tools are described in the system prompt instead of sent natively
+    expect(service.requests[0]!.tools).toBeUndefined();
+    expect(service.requests[0]!.messages[0]!.content).toContain("ReadFile");
+  });
+
+  it("stops at the tool round limit", async () => {
+    const toolCall = { name: "ReadFile", args: { path: "a.ts" } };
+    const service = new MockLLMService(() => ({ toolCalls: [toolCall] }));
+    const agent = new TestAgent({ name: "mock", service });
+    agent.limits = { maxToolRounds: 2 };
+
+    const message = await agent.send(new Message("user", "Loop"), false);
+
+    expect(service.requests).toHaveLength(3);
+    expect(message.content).toContain("Reached the maximum of 2 tool rounds.");
+  });
+
+  it("rejects a send while another is in progress", async () => {
+    const service = new MockLLMService(["First", "Second"], 10);
+    const agent = new TestAgent({ name: "mock", service });
+
+    const first = agent.send(new Message("user", "One"));
+    await expect(agent.send(new Message("user", "Two"))).rejects.toThrow(
+      "TestAgent is still handling a message",
+    );
+    expect((await first).content).toBe("First");
+
+    // and accepts the next one once the reply is in
+    expect((await agent.send(new Message("user", "Three"))).content).toBe(
+      "Second",
+    );
+    expect(agent.history.map((message) => message.content)).toEqual([
+      "One",
+      "First",
+      "Three",
+      "Second",
+    ]);
+  });
+
+  it("starts over on reset, including summaries and usage", async () => {
+    const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+    const summarizer = new MockLLMService(() => ({
+      content: "Earlier they talked.",
+      usage,
+    }));
+    const service = new MockLLMService(() => ({ content: "OK", usage }));
+    const agent = new TestAgent({ name: "mock", service, contextSize: 4200 });
+    agent.maxTokens = 4000;
+    agent.contextManager = new SummarizingContextManager({
+      summarizer: { name: "summarizer", service: summarizer },
+      keepRecent: 2,
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await agent.send(new Message("user", "A long question ".repeat(20)));
+    }
+    // the summarizer's requests count toward the agent's usage
+    expect(summarizer.requests.length).toBeGreaterThan(0);
+    expect(agent.usage.byModel.summarizer!.totalTokens).toBe(
+      15 * summarizer.requests.length,
+    );
+
+    agent.reset();
+    expect(agent.history).toEqual([]);
+    expect(agent.usage.requests).toBe(0);
+    await agent.send(new Message("user", "Hi"));
+    expect(service.requests.at(-1)!.messages.map((m) => m.content)).toEqual([
+      "You help with files.",
+      "Hi",
+    ]);
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  Agent,
+  APPROVAL_INSTRUCTIONS,
+  ApprovalPolicy,
+  ApprovalRequest,
+  ApprovalResponse,
+  getToolCallPaths,
+  Message,
+  MockLLMService,
+  requireApproval,
+  resolveApproval,
+  Tool,
+  ToolCall,
+} from "../src/index.ts";
+
+const call = (name: string, args: Record<string, any>) =>
+  new ToolCall(`${name}-1`, name, args);
+
+describe("getToolCallPaths", () => {
+  it("collects paths from the path arguments, including lists", () => {
+    expect(
+      getToolCallPaths(
+        call("MoveFile", {
+          oldPath: "a.ts",
+          newPath: "b.ts",
+          files: ["c.ts", 3, "d.ts"],
+          content: "not/a/path.ts",
+        }),
+      ),
+    ).toEqual(["a.ts", "b.ts", "c.ts", "d.ts"]);
+  });
+});
+
+describe("resolveApproval", () => {
+  it("decides by the tool's risk when no rule matches", () => {
+    const policy: ApprovalPolicy = { risks: { write: "allow" } };
+
+    expect(resolveApproval(policy, call("WriteFile", {}), "write")).toBe(
+      "allow",
+    );
+    // risks the policy leaves out fall back to the default policy
+    expect(resolveApproval(policy, call("ReadFile", {}), "read")).toBe("allow");
+    expect(resolveApproval(policy, call("DeleteFile", {}), "destructive")).toBe(
+      "ask",
+    );
+  });
+
+  it("uses the first rule that matches", () => {
+    const policy: ApprovalPolicy = {
+      rules: [
+        { tool: "WriteFile", path: "docs/**", decision: "allow" },
+        { path: ".env*", decision: "deny" },
+        { tool: "*File", decision: "ask" },
+      ],
+      risks: { write: "allow" },
+    };
+
+    expect(
+      resolveApproval(
+        policy,
+        call("WriteFile", { path: "docs/a.md" }),
+        "write",
+      ),
+    ).toBe("allow");
+    // the first rule wins over later ones that also match
+    expect(
+      resolveApproval(
+        policy,
+        call("WriteFile", { path: "docs/.env.md" }),
+        "write",
+      ),
+    ).toBe("allow");
+    expect(
+      resolveApproval(
+        policy,
+        call("ReadFile", { path: "config/.env" }),
+        "read",
+      ),
+    ).toBe("deny");
+    expect(
+      resolveApproval(policy, call("EditFile", { path: "src/a.ts" }), "write"),
+    ).toBe("ask");
+    expect(
+      resolveApproval(policy, call("RunTests", { path: "src" }), "write"),
+    ).toBe("allow");
+  });
+
+  it("matches a path rule if any of the call's paths matches", () => {
+    const policy: ApprovalPolicy = {
+      rules: [{ path: "*.lock", decision: "deny" }],
+    };
+
+    expect(
+      resolveApproval(
+        policy,
+        call("ReadFiles", { paths: ["a.ts", "pkg/yarn.lock"] }),
+        "read",
+      ),
+    ).toBe("deny");
+    expect(
+      resolveApproval(policy, call("ReadFiles", { paths: ["a.ts"] }), "read"),
+    ).toBe("allow");
+  });
+
+  it("matches tool names exactly unless the rule has a wildcard", () => {
+    const policy: ApprovalPolicy = {
+      rules: [
+        { tool: "Read", decision: "deny" },
+        { tool: "Git*Commit", decision: "deny" },
+        { tool: "File.*", decision: "deny" },
+      ],
+    };
+
+    expect(resolveApproval(policy, call("ReadFile", {}), "read")).toBe("allow");
+    expect(resolveApproval(policy, call("Read", {}), "read")).toBe("deny");
+    expect(resolveApproval(policy, call("GitAmendCommit", {}), "read")).toBe(
+      "deny",
+    );
+    // only * is special, other characters match themselves
+    expect(resolveApproval(policy, call("FileX", {}), "read")).toBe("allow");
+    expect(resolveApproval(policy, call("File.read", {}), "read")).toBe("deny");
+  });
+});
+
+class TestAgent extends Agent {
+  public readonly systemPrompt = "You edit files.";
+  public previews: Record<string, any>[] = [];
+  public written: Record<string, any>[] = [];
+  public tools = [
+    new Tool(
+      {
+        name: "ReadFile",
+        description: "Read a file",
+        parameters: { path: { type: "string" } },
+        required: ["path"],
+        risk: "read",
+      },
+      async ({ path }) => `contents of ${path}`,
+    ),
+    new Tool(
+      {
+        name: "WriteFile",
+        description: "Write a file",
+        parameters: { path: { type: "string" }, line: { type: "number" } },
+        required: ["path", "line"],
+        preview: async (args) => {
+          this.previews.push(args);
+          return `+ line ${args.line} of ${args.path}`;
+        },
+      },
+      async (args) => {
+        this.written.push(args);
+        return "Written";
+      },
+    ),
+  ];
+}
+
+// sends a message whose reply makes the scripted tool calls, and returns their results
+async function runCalls(agent: TestAgent) {
+  const message = await agent.send(new Message("user", "Go"), false);
+  return message.toolCalls!.map((toolCall) => toolCall.result!);
+}
+
+function agentWith(
+  toolCalls: { name: string; args: Record<string, any> }[],
+  respond: (request: ApprovalRequest) => ApprovalResponse,
+) {
+  const requests: ApprovalRequest[] = [];
+  const agent = new TestAgent({
+    name: "mock",
+    service: new MockLLMService([{ toolCalls }, "Done"]),
+  });
+  agent.use(
+    requireApproval(async (request) => {
+      requests.push(request);
+      return respond(request);
+    }),
+  );
+  return { agent, requests };
+}
+
+describe("requireApproval", () => {
+  it("runs allowed calls without asking and asks about the rest", async () => {
+    const toolCalls = [
+      { name: "ReadFile", args: { path: "a.ts" } },
+      { name: "WriteFile", args: { path: "a.ts", line: 1 } },
+    ];
+    const { agent, requests } = agentWith(toolCalls, () => ({
+      approved: true,
+    }));
+
+    const results = await runCalls(agent);
+
+    expect(results.map((result) => result.content)).toEqual([
+      "contents of a.ts",
+      "Written",
+    ]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      risk: "write",
+      paths: ["a.ts"],
+      preview: "+ line 1 of a.ts",
+    });
+    expect(requests[0]!.tool!.name).toBe("WriteFile");
+  });
+
+  it("returns an error to the model for denied calls", async () => {
+    const toolCalls = [
+      { name: "WriteFile", args: { path: "a.ts", line: 1 } },
+      { name: "WriteFile", args: { path: ".env", line: 1 } },
+    ];
+    const { agent, requests } = agentWith(toolCalls, () => ({
+      approved: false,
+      reason: "not now",
+    }));
+    agent.approvalPolicy = {
+      rules: [{ path: ".env*", decision: "deny" }],
+      risks: { write: "ask" },
+    };
+
+    const results = await runCalls(agent);
+
+    expect(results.map((result) => result.error)).toEqual([
+      "The user denied this tool call: not now",
+      "The approval policy does not allow WriteFile with these arguments.",
+    ]);
+    // the policy denied the second one without asking
+    expect(requests).toHaveLength(1);
+    expect(agent.written).toEqual([]);
+  });
+
+  it("runs the call with the arguments the user edited", async () => {
+    const toolCalls = [{ name: "WriteFile", args: { path: "a.ts", line: 1 } }];
+    const { agent } = agentWith(toolCalls, () => ({
+      approved: true,
+      args: { path: "b.ts", line: "2" },
+    }));
+
+    await runCalls(agent);
+
+    // edited arguments are validated like the model's
+    expect(agent.written).toEqual([{ path: "b.ts", line: 2 }]);
+  });
+
+  it("previews validated arguments only", async () => {
+    const toolCalls = [
+      { name: "WriteFile", args: { path: "a.ts", line: "3" } },
+      { name: "WriteFile", args: { path: "a.ts" } },
+    ];
+    const { agent, requests } = agentWith(toolCalls, () => ({
+      approved: true,
+    }));
+
+    const results = await runCalls(agent);
+
+    expect(agent.previews).toEqual([{ path: "a.ts", line: 3 }]);
+    expect(requests.map((request) => request.preview)).toEqual([
+      "+ line 3 of a.ts",
+      undefined,
+    ]);
+    expect(results[1]!.ok).toBe(false);
+  });
+
+  it("tells the model about approvals only when they are required", async () => {
+    const service = new MockLLMService(["Hi", "Hi"]);
+    const agent = new TestAgent({ name: "mock", service });
+
+    await agent.send(new Message("user", "Hello"), false);
+    agent.use(requireApproval(async () => ({ approved: true })));
+    await agent.send(new Message("user", "Hello"), false);
+
+    const [without, withApproval] = service.requests.map(
+      (request) => request.messages[0]!.content,
+    );
+    expect(without).toBe("You edit files.");
+    expect(withApproval).toBe(`You edit files.\n\n${APPROVAL_INSTRUCTIONS}`);
+    // the agent's own prompt is unchanged
+    expect(agent.systemPrompt).toBe("You edit files.");
+  });
+});
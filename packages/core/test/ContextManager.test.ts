@@ -0,0 +1,64 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  Message,
+  MockLLMService,
+  SummarizingContextManager,
+  UsageTracker,
+} from "../src/index.ts";
+
+const conversation = () => [
+  new Message("system", "You are helpful."),
+  ...Array.from({ length: 8 }, (_, i) =>
+    i % 2
+      ? new Message("assistant", `Answer ${i} `.repeat(20))
+      : new Message("user", `Question ${i} `.repeat(20)),
+  ),
+];
+
+describe("SummarizingContextManager", () => {
+  it("summarizes older turns and records the summarizer's usage", async () => {
+    const service = new MockLLMService([
+      {
+        content: "They asked four questions.",
+        usage: { promptTokens: 400, completionTokens: 10, totalTokens: 410 },
+      },
+    ]);
+    const manager = new SummarizingContextManager({
+      summarizer: {
+        name: "summarizer",
+        service,
+        pricing: { input: 1, output: 5 },
+      },
+      keepRecent: 2,
+    });
+    const usage = new UsageTracker();
+    const messages = conversation();
+
+    const fitted = await manager.fit(messages, {
+      contextSize: 200,
+      reserve: 0,
+      usage,
+    });
+
+    expect(fitted.map((message) => message.role)).toEqual([
+      "system",
+      "system",
+      "user",
+      "assistant",
+    ]);
+    expect(fitted[1]!.content).toContain("They asked four questions.");
+    expect(usage.requests).toBe(1);
+    expect(usage.byModel.summarizer).toMatchObject({
+      totalTokens: 410,
+      cost: (400 * 1 + 10 * 5) / 1000000,
+    });
+
+    // the summary is reused until it's forgotten
+    await manager.fit(messages, { contextSize: 200, reserve: 0 });
+    expect(service.requests).toHaveLength(1);
+    manager.reset();
+    expect(
+      await manager.fit(messages, { contextSize: 100000, reserve: 0 }),
+    ).toEqual(messages);
+  });
+});
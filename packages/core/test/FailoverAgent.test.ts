@@ -0,0 +1,131 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  FailoverAgent,
+  Message,
+  MockLLMService,
+  ModelsExhaustedError,
+  Tool,
+  ToolMessage,
+} from "../src/index.ts";
+
+class TestAgent extends FailoverAgent {
+  public readonly systemPrompt = "You are helpful.";
+  public tools = [
+    new Tool(
+      {
+        name: "ReadFile",
+        description: "Read a file",
+        parameters: { path: { type: "string" } },
+        required: ["path"],
+      },
+      async ({ path }) => `contents of ${path}`,
+    ),
+  ];
+}
+
+const rateLimited = () =>
+  Object.assign(new Error("Rate limit reached"), { status: 429 });
+
+describe("FailoverAgent", () => {
+  it("rotates to the next model when one is rate limited", async () => {
+    const first = new MockLLMService([{ error: rateLimited() }]);
+    const second = new MockLLMService(["Hello from the second model"]);
+    const agent = new TestAgent([
+      { name: "first", service: first },
+      { name: "second", service: second },
+    ]);
+
+    const message = await agent.send(new Message("user", "Hi"));
+
+    expect(message.content).toBe("Hello from the second model");
+    expect(agent.modelName).toBe("second");
+    expect(first.requests).toHaveLength(1);
+    expect(second.requests[0]!.model).toBe("second");
+    // the message went into the history once
+    expect(agent.history.map((message) => message.content)).toEqual([
+      "Hi",
+      "Hello from the second model",
+    ]);
+    expect(
+      second.requests[0]!.messages.map((message) => message.content),
+    ).toEqual(["You are helpful.", "Hi"]);
+  });
+
+  it("continues on the next model when a tool round fails", async () => {
+    const first = new MockLLMService([
+      {
+        toolCalls: [{ name: "ReadFile", args: { path: "a.ts" }, id: "call-1" }],
+      },
+      { error: rateLimited() },
+    ]);
+    const second = new MockLLMService(["a.ts is short."]);
+    const agent = new TestAgent([
+      { name: "first", service: first },
+      { name: "second", service: second },
+    ]);
+
+    const message = await agent.send(new Message("user", "Read a.ts"));
+
+    expect(message.content).toBe("a.ts is short.");
+    expect(first.requests).toHaveLength(2);
+    expect(second.requests).toHaveLength(1);
+    // the tool ran once, and the second model got its result
+    const history = agent.history;
+    expect(history).toHaveLength(4);
+    expect(history[0]!.content).toBe("Read a.ts");
+    expect(history[1]!.toolCalls![0]!.id).toBe("call-1");
+    expect((history[2] as ToolMessage).content).toBe("contents of a.ts");
+    expect(history[3]!.content).toBe("a.ts is short.");
+    expect(second.requests[0]!.messages.at(-1)).toBe(history[2]);
+  });
+
+  it("doesn't rotate on errors every model would fail with", async () => {
+    const badRequest = Object.assign(new Error("Invalid request"), {
+      status: 400,
+    });
+    const second = new MockLLMService(["unused"]);
+    const agent = new TestAgent([
+      { name: "first", service: new MockLLMService([{ error: badRequest }]) },
+      { name: "second", service: second },
+    ]);
+
+    await expect(agent.send(new Message("user", "Hi"))).rejects.toBe(
+      badRequest,
+    );
+    expect(second.requests).toHaveLength(0);
+  });
+
+  it("gives up when every model keeps failing", async () => {
+    const first = new MockLLMService(() => ({ error: rateLimited() }));
+    const second = new MockLLMService(() => ({ error: rateLimited() }));
+    const agent = new TestAgent([
+      { name: "first", service: first },
+      { name: "second", service: second },
+    ]);
+
+    const error = await agent
+      .send(new Message("user", "Hi"))
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(ModelsExhaustedError);
+    expect(error.message).toBe(
+      "All models exhausted. Last error: Rate limit reached",
+    );
+    // each model is tried failoverRounds times, and the message was added once
+    expect(first.requests).toHaveLength(3);
+    expect(second.requests).toHaveLength(3);
+    expect(agent.history.map((message) => message.content)).toEqual(["Hi"]);
+  });
+
+  it("doesn't rotate on a sub-agent that ran out of models", async () => {
+    const second = new MockLLMService(["unused"]);
+    const exhausted = new ModelsExhaustedError(rateLimited());
+    const agent = new TestAgent([
+      { name: "first", service: new MockLLMService([{ error: exhausted }]) },
+      { name: "second", service: second },
+    ]);
+
+    await expect(agent.send(new Message("user", "Hi"))).rejects.toBe(exhausted);
+    expect(second.requests).toHaveLength(0);
+  });
+});
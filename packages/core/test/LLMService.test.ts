@@ -0,0 +1,53 @@
+import { describe, expect, it } from "@jest/globals";
+import { Message, MockLLMService } from "../src/index.ts";
+
+// a reply streamed in small pieces, with text tool calls parsed from it
+async function streamParsed(content: string) {
+  const chunks = content.match(/.{1,8}/gs)!;
+  const service = new MockLLMService([{ content, chunks }]);
+  const reply = service.send({
+    model: "mock",
+    messages: [new Message("user", "Hi")],
+    parseToolCalls: true,
+    streaming: true,
+  });
+  const started: string[] = [];
+  reply.on("toolCallStart", (id: string) => started.push(id));
+  return { started, message: await reply };
+}
+
+describe("LLMService text tool call streaming", () => {
+  it("announces each call and keeps the announced ids", async () => {
+    const { started, message } = await streamParsed(
+      'Reading. <ToolCall>{"name": "ReadFile", "arguments": {"path": "a.ts"}}</ToolCall>' +
+        '<ToolCall>{"name": "ListFiles", "arguments": {"path": "src"}}</ToolCall>',
+    );
+
+    expect(started).toHaveLength(2);
+    expect(message.toolCalls!.map((toolCall) => toolCall.id)).toEqual(started);
+  });
+
+  it("doesn't announce a call whose name can't be decoded", async () => {
+    const { started, message } = await streamParsed(
+      '<ToolCall>{"name": "Read\\qFile", "arguments": {"path": "a.ts"}}</ToolCall>',
+    );
+
+    expect(started).toEqual([]);
+    // it's still reported back to the model as a failed call
+    expect(message.toolCalls).toHaveLength(1);
+    expect(message.toolCalls![0]!.result?.ok).toBe(false);
+  });
+
+  it("matches the ids to calls when one of them couldn't be parsed", async () => {
+    const { started, message } = await streamParsed(
+      '<ToolCall>{"name": "ReadFile", "arguments": {"path": }}</ToolCall>' +
+        '<ToolCall>{"name": "ListFiles", "arguments": {"path": "src"}}</ToolCall>',
+    );
+
+    expect(started).toHaveLength(2);
+    const [failed, parsed] = message.toolCalls!;
+    expect(failed!.result?.ok).toBe(false);
+    expect(parsed!.id).toBe(started[1]);
+    expect(parsed!.args).toEqual({ path: "src" });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "@jest/globals";
+import { AbortError, Message, MockLLMService } from "../src/index.ts";
+
+const request = { model: "mock", messages: [new Message("user", "Hi")] };
+
+describe("MockLLMService", () => {
+  it("streams scripted chunks in order", async () => {
+    const service = new MockLLMService([
+      { content: "Hello there", chunks: ["Hello", " there"], delay: 1 },
+    ]);
+
+    const reply = service.send({ ...request, streaming: true });
+    const chunks: string[] = [];
+    reply.on("chunk", (chunk) => chunks.push(chunk));
+
+    expect((await reply).content).toBe("Hello there");
+    expect(chunks).toEqual(["Hello", " there"]);
+  });
+
+  it("keeps scripted tool calls when the model parses text tool calls", async () => {
+    const service = new MockLLMService([
+      {
+        content: "Reading it.",
+        toolCalls: [{ name: "ReadFile", args: { path: "a.ts" }, id: "call-1" }],
+      },
+      {
+        content:
+          'Reading it. <ToolCall>{"name": "ReadFile", "arguments": {"path": "b.ts"}}</ToolCall>',
+      },
+    ]);
+
+    const scripted = await service.send({
+      ...request,
+      parseToolCalls: true,
+      streaming: true,
+    });
+    expect(scripted.toolCalls).toHaveLength(1);
+    expect(scripted.toolCalls![0]).toMatchObject({
+      id: "call-1",
+      args: { path: "a.ts" },
+    });
+
+    const parsed = await service.send({ ...request, parseToolCalls: true });
+    expect(parsed.toolCalls![0]).toMatchObject({
+      name: "ReadFile",
+      args: { path: "b.ts" },
+    });
+  });
+
+  it("rejects with scripted errors, and when it runs out of replies", async () => {
+    const service = new MockLLMService([{ error: "Overloaded" }]);
+
+    await expect(service.send(request)).rejects.toThrow("Overloaded");
+    await expect(service.send(request)).rejects.toThrow(
+      "MockLLMService has no reply for request 2",
+    );
+  });
+
+  it("rejects with an AbortError when aborted", async () => {
+    const controller = new AbortController();
+    const service = new MockLLMService(["Too late"], 50);
+
+    const reply = service.send({ ...request, signal: controller.signal });
+    controller.abort();
+
+    await expect(reply).rejects.toBeInstanceOf(AbortError);
+  });
+});
@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { Message, MockLLMService, RecordingLLMService } from "../src/index.ts";
+
+const request = (content: string) => ({
+  model: "mock",
+  messages: [new Message("user", content)],
+  streaming: true,
+});
+
+describe("RecordingLLMService", () => {
+  let cassette: string;
+  beforeEach(() => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "cassette-"));
+    cassette = path.join(directory, "model.json");
+  });
+  afterEach(() =>
+    fs.rmSync(path.dirname(cassette), { recursive: true, force: true }),
+  );
+
+  it("replays recorded replies with their chunks and tool calls", async () => {
+    const live = new MockLLMService([
+      {
+        content: "Let me look.",
+        chunks: ["Let me ", "look."],
+        reasoning: "Check the file first.",
+        toolCalls: [{ name: "ReadFile", args: { path: "a.ts" }, id: "call-1" }],
+      },
+      "Second answer",
+    ]);
+    const recorder = new RecordingLLMService(live, cassette, "record");
+    const recorded = await recorder.send(request("Hi"));
+    await recorder.send(request("Hi"));
+    expect(fs.existsSync(cassette)).toBe(true);
+
+    const replayer = new RecordingLLMService(
+      new MockLLMService([]),
+      cassette,
+      "replay",
+    );
+    const reply = replayer.send(request("Hi"));
+    const chunks: string[] = [];
+    reply.on("chunk", (chunk) => chunks.push(chunk));
+    const replayed = await reply;
+
+    expect(chunks).toEqual(["Let me ", "look."]);
+    expect(replayed.content).toBe(recorded.content);
+    expect(replayed.reasoning).toBe("Check the file first.");
+    expect(replayed.toolCalls![0]).toMatchObject({
+      id: "call-1",
+      name: "ReadFile",
+      args: { path: "a.ts" },
+    });
+    // the same request gets the next recording
+    expect((await replayer.send(request("Hi"))).content).toBe("Second answer");
+  });
+
+  it("fails on requests that weren't recorded when replaying", async () => {
+    await new RecordingLLMService(
+      new MockLLMService(["Recorded"]),
+      cassette,
+    ).send(request("Hi"));
+
+    const replayer = new RecordingLLMService(
+      new MockLLMService([]),
+      cassette,
+      "replay",
+    );
+
+    await expect(replayer.send(request("Something else"))).rejects.toThrow(
+      `No recorded reply for this request in ${cassette}`,
+    );
+  });
+
+  it("records only what it hasn't seen in auto mode", async () => {
+    await new RecordingLLMService(new MockLLMService(["First"]), cassette).send(
+      request("Hi"),
+    );
+
+    const live = new MockLLMService(["Second"]);
+    const service = new RecordingLLMService(live, cassette, "auto");
+
+    expect((await service.send(request("Hi"))).content).toBe("First");
+    expect((await service.send(request("Bye"))).content).toBe("Second");
+    expect(live.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,58 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { FileSessionStore, Session, SESSION_VERSION } from "../src/index.ts";
+
+const session = (id: string, updatedAt: string): Session => ({
+  version: SESSION_VERSION,
+  id,
+  agent: "TestAgent",
+  model: "mock",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt,
+  messages: [{ role: "user", content: "Hi" }],
+});
+
+describe("FileSessionStore", () => {
+  let directory: string;
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+  });
+  afterEach(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it("saves, loads and lists sessions, most recent first", async () => {
+    const store = new FileSessionStore(directory);
+    await store.save(session("older", "2025-01-01T00:00:00.000Z"));
+    await store.save(session("newer", "2025-01-02T00:00:00.000Z"));
+
+    expect(await store.load("older")).toEqual(
+      session("older", "2025-01-01T00:00:00.000Z"),
+    );
+    expect(await store.load("missing")).toBeUndefined();
+    expect((await store.list()).map(({ id }) => id)).toEqual([
+      "newer",
+      "older",
+    ]);
+  });
+
+  it("skips sessions it can't read when listing", async () => {
+    const store = new FileSessionStore(directory);
+    const warnings: Record<string, any>[] = [];
+    store.logger = {
+      debug() {},
+      info() {},
+      warn: (_message, fields) => warnings.push(fields!),
+      error() {},
+    };
+    await store.save(session("good", "2025-01-01T00:00:00.000Z"));
+    fs.writeFileSync(path.join(directory, "broken.json"), '{"id": "bro');
+
+    const sessions = await store.list();
+
+    expect(sessions.map(({ id }) => id)).toEqual(["good"]);
+    expect(sessions[0]!.messageCount).toBe(1);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]!.file).toBe(path.join(directory, "broken.json"));
+  });
+});
@@ -0,0 +1,60 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, describe, expect, it } from "@jest/globals";
+import {
+  BPETokenizer,
+  estimateTokenizer,
+  getLogger,
+  getTokenizer,
+  setLogger,
+} from "../src/index.ts";
+
+const ranks = new Map([
+  ["a", 0],
+  ["b", 1],
+  ["ab", 2],
+  ["abab", 3],
+  [" ", 4],
+]);
+
+describe("BPETokenizer", () => {
+  const tokenizer = new BPETokenizer("test", ranks, "\\S+|\\s+", {
+    "<|end|>": 5,
+  });
+
+  it("merges the lowest ranked pairs first", () => {
+    expect(tokenizer.encode("abab ab aba")).toEqual([3, 4, 2, 4, 2, 0]);
+    expect(tokenizer.encode("ab<|end|>")).toEqual([2, 5]);
+  });
+
+  it("encodes long pieces in slices", () => {
+    const text = "ab".repeat(5000);
+
+    expect(tokenizer.count(text)).toBe(2500);
+  });
+});
+
+describe("getTokenizer", () => {
+  const logger = getLogger();
+  afterEach(() => setLogger(logger));
+
+  it("warns once and estimates when the vocabulary is missing", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "tokenizers-"));
+    const warnings: Record<string, any>[] = [];
+    setLogger({
+      debug() {},
+      info() {},
+      warn: (_message, fields) => warnings.push(fields!),
+      error() {},
+    });
+
+    expect(getTokenizer("cl100k_base", directory)).toBe(estimateTokenizer);
+    expect(getTokenizer("cl100k_base", directory)).toBe(estimateTokenizer);
+
+    expect(warnings).toEqual([
+      { file: path.join(directory, "cl100k_base.tiktoken") },
+    ]);
+    fs.rmSync(directory, { recursive: true });
+  });
+});
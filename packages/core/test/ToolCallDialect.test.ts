@@ -0,0 +1,61 @@
+import { describe, expect, it } from "@jest/globals";
+import { pythonCallDialect } from "../src/index.ts";
+
+const fence = (language: string, code: string) =>
+  "```" + language + "\n" + code + "\n```";
+
+describe("pythonCallDialect", () => {
+  it("reads keyword argument calls from tool_code blocks", () => {
+    const result = pythonCallDialect.parse(
+      "Reading both.\n" +
+        fence(
+          "tool_code",
+          'ReadFile(path="a.ts")\nSearch(query=\'x\', paths=["src"], limit=5)',
+        ),
+    );
+
+    expect(result.content).toBe("Reading both.");
+    expect(result.failures).toEqual([]);
+    expect(result.toolCalls.map(({ name, args }) => ({ name, args }))).toEqual([
+      { name: "ReadFile", args: { path: "a.ts" } },
+      { name: "Search", args: { query: "x", paths: ["src"], limit: 5 } },
+    ]);
+  });
+
+  it("leaves python blocks that aren't calls in the content", () => {
+    const text =
+      "Like this:\n" + fence("python", "for x in range(3):\n  print(x)");
+
+    const result = pythonCallDialect.parse(text);
+
+    expect(result.content).toBe(text);
+    expect(result.toolCalls).toEqual([]);
+    expect(result.failures).toEqual([]);
+  });
+
+  it("leaves python samples that look like calls in the answer", () => {
+    const text =
+      "Start it with debugging on:\n" + fence("python", "main(debug=True)");
+
+    const result = pythonCallDialect.parse(text);
+
+    expect(result.content).toBe(text);
+    expect(result.toolCalls).toEqual([]);
+    expect(result.failures).toEqual([]);
+  });
+
+  it("records tool_code blocks it can't read as failed calls", () => {
+    const block = fence("tool_code", 'ReadFile("a.ts")');
+
+    const result = pythonCallDialect.parse(`Reading it.\n${block}`);
+
+    expect(result.content).toBe("Reading it.");
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.failures).toHaveLength(1);
+    const [failure] = result.failures;
+    expect(failure!.toolCall).toBe(result.toolCalls[0]);
+    expect(failure!.toolCall.name).toBe("ReadFile");
+    expect(failure!.raw).toBe(block);
+    expect(failure!.error).toContain("pass ReadFile's arguments by keyword");
+  });
+});
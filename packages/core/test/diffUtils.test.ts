@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "@jest/globals";
+import { createDiff, diffFile } from "../src/index.ts";
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("createDiff", () => {
+  it("is empty for equal texts", () => {
+    expect(createDiff("a\nb", "a\nb")).toBe("");
+  });
+
+  it("shows a change with its context", () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = "changed";
+
+    expect(createDiff(before.join("\n"), after.join("\n"), "a.txt")).toBe(
+      [
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+changed",
+        " line 6",
+        " line 7",
+        " line 8",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("puts changes far apart in separate hunks", () => {
+    const before = lines(20);
+    const after = before.filter((line) => line !== "line 2");
+    after.push("line 21");
+
+    const diff = createDiff(before.join("\n"), after.join("\n"));
+
+    expect(diff.match(/^@@.*@@$/gm)).toEqual([
+      "@@ -1,5 +1,4 @@",
+      "@@ -18,3 +17,4 @@",
+    ]);
+  });
+
+  it("diffs against an empty text for new and deleted files", () => {
+    expect(createDiff("", "a\nb", "new.txt")).toBe(
+      "--- a/new.txt\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n",
+    );
+    expect(createDiff("a", "", "old.txt")).toBe(
+      "--- a/old.txt\n+++ b/old.txt\n@@ -1,1 +0,0 @@\n-a\n",
+    );
+  });
+});
+
+describe("diffFile", () => {
+  it("diffs a change without making it", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "diff-"));
+    const file = path.join(directory, "a.txt");
+    fs.writeFileSync(file, "one\r\ntwo\r\n");
+
+    const diff = await diffFile(file, (content) =>
+      content.replace("two", "three"),
+    );
+    const created = await diffFile(path.join(directory, "b.txt"), () => "new");
+
+    expect(diff).toContain("-two\n+three\n");
+    expect(fs.readFileSync(file, "utf-8")).toBe("one\r\ntwo\r\n");
+    expect(created).toContain("@@ -0,0 +1,1 @@\n+new\n");
+    fs.rmSync(directory, { recursive: true });
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * A request the fake server received, with its body parsed as JSON
+ */
+export interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body?: any;
+}
+
+/**
+ * What the fake server answers. An object body is sent as JSON, a list of
+ * strings is written piece by piece, like a stream arriving over the network.
+ */
+export interface FakeResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: string | string[] | object;
+}
+
+export interface FakeServer {
+  url: string;
+  requests: ReceivedRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * A local HTTP server standing in for a provider's API. Responses are used in
+ * order, or come from a function of the request.
+ */
+export async function startFakeServer(
+  responses: FakeResponse[] | ((request: ReceivedRequest) => FakeResponse),
+): Promise<FakeServer> {
+  const requests: ReceivedRequest[] = [];
+  const queue = Array.isArray(responses) ? [...responses] : [];
+
+  const server = http.createServer(async (req, res) => {
+    let text = "";
+    for await (const chunk of req) text += chunk;
+    const request: ReceivedRequest = {
+      method: req.method!,
+      url: req.url!,
+      headers: req.headers,
+      body: text ? JSON.parse(text) : undefined,
+    };
+    requests.push(request);
+
+    const response =
+      typeof responses === "function" ? responses(request) : queue.shift();
+    if (!response) {
+      res.writeHead(500).end(`No response for request ${requests.length}`);
+      return;
+    }
+
+    const json =
+      typeof response.body === "object" && !Array.isArray(response.body);
+    res.writeHead(response.status ?? 200, {
+      "content-type": json ? "application/json" : "text/plain",
+      ...response.headers,
+    });
+    if (json) {
+      res.end(JSON.stringify(response.body));
+      return;
+    }
+    for (const piece of [response.body].flat() as string[]) {
+      res.write(piece);
+      // let the client read each piece before the next arrives
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    res.end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/**
+ * A recorded stream replayed in small pieces, so events and lines are split
+ * across reads the way they are over a real connection
+ */
+export function streamFixture(
+  file: string,
+  contentType: string,
+  pieceSize = 48,
+): FakeResponse {
+  const text = fs.readFileSync(file, "utf-8");
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += pieceSize) {
+    pieces.push(text.substring(i, i + pieceSize));
+  }
+  return { headers: { "content-type": contentType }, body: pieces };
+}
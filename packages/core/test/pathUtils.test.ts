@@ -0,0 +1,46 @@
+import { describe, expect, it } from "@jest/globals";
+import { matchesGlob } from "../src/index.ts";
+
+const matches = (pattern: string, filePath: string) =>
+  matchesGlob(pattern, filePath, "/repo");
+
+describe("matchesGlob", () => {
+  it("matches patterns without a slash against the file name in any directory", () => {
+    expect(matches(".env*", ".env")).toBe(true);
+    expect(matches(".env*", "config/.env.local")).toBe(true);
+    expect(matches(".env*", "env")).toBe(false);
+    expect(matches("*.ts", "src/deep/a.ts")).toBe(true);
+    expect(matches("*.ts", "src/a.tsx")).toBe(false);
+  });
+
+  it("matches patterns with a slash against the whole relative path", () => {
+    expect(matches("src/*.ts", "src/a.ts")).toBe(true);
+    expect(matches("src/*.ts", "src/lib/a.ts")).toBe(false);
+    expect(matches("src/*.ts", "lib/src/a.ts")).toBe(false);
+    expect(matches("./src/*.ts", "src/a.ts")).toBe(true);
+  });
+
+  it("matches any number of directories with **", () => {
+    expect(matches("src/**", "src/a.ts")).toBe(true);
+    expect(matches("src/**", "src/lib/deep/a.ts")).toBe(true);
+    expect(matches("src/**", "test/src/a.ts")).toBe(false);
+    expect(matches("src/**/*.ts", "src/a.ts")).toBe(true);
+    expect(matches("src/**/*.ts", "src/lib/a.ts")).toBe(true);
+    expect(matches("src/**/*.ts", "src/lib/a.js")).toBe(false);
+    expect(matches("**/secrets/*", "a/b/secrets/key")).toBe(true);
+    expect(matches("**/secrets/*", "secrets/key")).toBe(true);
+  });
+
+  it("matches one character with ? and everything else literally", () => {
+    expect(matches("a?.ts", "ab.ts")).toBe(true);
+    expect(matches("a?.ts", "a.ts")).toBe(false);
+    expect(matches("*.ts", "axts")).toBe(false);
+    expect(matches("(a)+.ts", "(a)+.ts")).toBe(true);
+  });
+
+  it("resolves paths against the working directory", () => {
+    expect(matches("src/*.ts", "/repo/src/a.ts")).toBe(true);
+    expect(matches("src/*.ts", "lib/../src/a.ts")).toBe(true);
+    expect(matches("src/*.ts", "/elsewhere/src/a.ts")).toBe(false);
+  });
+});
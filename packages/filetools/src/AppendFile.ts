@@ -1,4 +1,4 @@
-import { Tool, validatePath } from "@fraimwork/core";
+import { diffFile, Tool, validatePath } from "@fraimwork/core";
 import * as fs from "fs/promises";
 
 /**
@@ -20,6 +20,9 @@ export function appendFile(): Tool {
         },
       },
       required: ["path", "content"],
+      risk: "write",
+      preview: async ({ path: filePath, content }) =>
+        diffFile(filePath, (current) => current + content),
     },
     async (args: Record<string, any>) => {
       const { path: filePath, content } = args as {
@@ -16,6 +16,8 @@ export function createDirectory(): Tool {
         },
       },
       required: ["path"],
+      risk: "write",
+      preview: async ({ path: dirPath }) => `Create directory ${dirPath}`,
     },
     async (args: Record<string, any>) => {
       const { path: dirPath } = args as { path: string };
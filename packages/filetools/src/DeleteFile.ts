@@ -21,6 +21,9 @@ export function deleteFile(): Tool {
         },
       },
       required: ["path"],
+      risk: "destructive",
+      preview: async ({ path: filePath, recursive }) =>
+        `Delete ${filePath}${recursive ? " and everything in it" : ""}`,
     },
     async (args: Record<string, any>) => {
       const { path: filePath, recursive } = args as {
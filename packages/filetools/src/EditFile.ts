@@ -1,6 +1,6 @@
 import * as fs from "fs/promises";
 import * as path from "path";
-import { Tool, validatePath } from "@fraimwork/core";
+import { diffFile, Tool, validatePath } from "@fraimwork/core";
 
 /**
  * Edit a single file with fenced context validation
@@ -28,6 +28,11 @@ export function editFile(): Tool {
         },
       },
       required: ["path", "oldString", "newString"],
+      risk: "write",
+      preview: async ({ path: filePath, oldString, newString }) =>
+        diffFile(filePath, (current) =>
+          oldString === "" ? newString : current.replace(oldString, newString),
+        ),
     },
     async (args: Record<string, any>) => {
       const {
@@ -1,5 +1,5 @@
 import * as fs from "fs/promises";
-import { Tool, validatePaths } from "@fraimwork/core";
+import { diffFile, Tool, validatePaths } from "@fraimwork/core";
 
 /**
  * Find and replace text across multiple files
@@ -30,6 +30,17 @@ export function findAndReplace(): Tool {
         },
       },
       required: ["files", "oldString", "newString"],
+      risk: "write",
+      preview: async ({ files, oldString, newString }) => {
+        const diffs = await Promise.all(
+          (files as string[]).map((filePath) =>
+            diffFile(filePath, (current) =>
+              current.replaceAll(oldString, newString),
+            ),
+          ),
+        );
+        return diffs.join("");
+      },
     },
     async (args: Record<string, any>) => {
       const { files, oldString, newString } = args as {
@@ -16,6 +16,8 @@ export function getFileInfo(): Tool {
         },
       },
       required: ["path"],
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const { path: filePath } = args as { path: string };
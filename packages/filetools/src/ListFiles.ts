@@ -23,6 +23,8 @@ export function listFiles(): Tool {
             "Optional glob pattern to filter files (e.g., '**/*.ts' for all TypeScript files)",
         },
       },
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const { directory, pattern } = args as {
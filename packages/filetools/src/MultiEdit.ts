@@ -1,5 +1,5 @@
 import * as fs from "fs/promises";
-import { Tool } from "@fraimwork/core";
+import { diffFile, Tool } from "@fraimwork/core";
 
 /**
  * Perform multiple edits within a single file
@@ -37,6 +37,15 @@ export function multiEdit(): Tool {
         },
       },
       required: ["path", "edits"],
+      risk: "write",
+      preview: async ({ path: filePath, edits }) =>
+        diffFile(filePath, (current) =>
+          edits.reduce(
+            (content: string, edit: { oldString: string; newString: string }) =>
+              content.replaceAll(edit.oldString, edit.newString),
+            current,
+          ),
+        ),
     },
     async (args: Record<string, any>) => {
       const { path: filePath, edits } = args as {
@@ -16,6 +16,8 @@ export function readFile(): Tool {
         },
       },
       required: ["path"],
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const { path } = args as { path: string };
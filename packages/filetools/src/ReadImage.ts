@@ -0,0 +1,43 @@
+import { imageFromFile, isImagePath, Tool, toolSuccess } from "@fraimwork/core";
+import * as fs from "fs/promises";
+
+/**
+ * Shows an image file to the model. Only useful with vision-capable models.
+ */
+export function readImage(): Tool {
+  return new Tool(
+    {
+      name: "ReadImage",
+      description:
+        "Look at an image file such as a screenshot or diagram (png, jpg, gif or webp)",
+      parameters: {
+        path: {
+          type: "string",
+          description: "The image file path",
+        },
+      },
+      required: ["path"],
+      concurrencySafe: true,
+      risk: "read",
+    },
+    async (args: Record<string, any>) => {
+      const { path } = args as { path: string };
+      if (!isImagePath(path)) {
+        return `Error: ${path} is not a supported image type`;
+      }
+
+      try {
+        const { size } = await fs.stat(path);
+        return {
+          ...toolSuccess(`Image ${path} (${size} bytes) is attached.`, {
+            path,
+            size,
+          }),
+          parts: [imageFromFile(path)],
+        };
+      } catch (error: any) {
+        return `Error reading image: ${error.message}`;
+      }
+    },
+  );
+}
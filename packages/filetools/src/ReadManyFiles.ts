@@ -1,4 +1,4 @@
-import { Tool } from "@fraimwork/core";
+import { getLogger, Tool } from "@fraimwork/core";
 import * as fs from "fs/promises";
 import { glob } from "glob";
 
@@ -53,6 +53,8 @@ export function readManyFiles(): Tool {
         },
       },
       required: ["paths"],
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const {
@@ -136,9 +138,10 @@ export function readManyFiles(): Tool {
             });
             files.forEach((file) => allFiles.add(file));
           } catch (error: any) {
-            console.warn(
-              `Warning: Error processing pattern "${pattern}": ${error.message}`,
-            );
+            getLogger().warn("Error processing pattern", {
+              pattern,
+              error: error.message,
+            });
           }
         }
 
@@ -21,6 +21,9 @@ export function renameFile(): Tool {
         },
       },
       required: ["oldPath", "newPath"],
+      risk: "write",
+      preview: async ({ oldPath, newPath }) =>
+        `Rename ${oldPath} to ${newPath}`,
     },
     async (args: Record<string, any>) => {
       const { oldPath, newPath } = args as {
@@ -30,6 +30,8 @@ export function search(): Tool {
         },
       },
       required: ["pattern"],
+      concurrencySafe: true,
+      risk: "read",
     },
     async (args: Record<string, any>) => {
       const { pattern, directory, filePattern } = args as {
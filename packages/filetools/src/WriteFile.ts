@@ -1,4 +1,4 @@
-import { Tool, validatePath } from "@fraimwork/core";
+import { diffFile, Tool, validatePath } from "@fraimwork/core";
 import * as fs from "fs/promises";
 import * as path from "path";
 
@@ -22,6 +22,9 @@ export function writeFile(): Tool {
         },
       },
       required: ["path", "content"],
+      risk: "write",
+      preview: async ({ path: filePath, content }) =>
+        diffFile(filePath, () => content),
     },
     async (args: Record<string, any>) => {
       const { path: filePath, content } = args as {
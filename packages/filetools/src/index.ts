@@ -8,6 +8,7 @@ export { getFileInfo } from "./GetFileInfo.ts";
 export { listFiles } from "./ListFiles.ts";
 export { multiEdit } from "./MultiEdit.ts";
 export { readFile } from "./ReadFile.ts";
+export { readImage } from "./ReadImage.ts";
 export { readManyFiles } from "./ReadManyFiles.ts";
 export { renameFile } from "./RenameFile.ts";
 export { search } from "./Search.ts";
@@ -23,6 +24,7 @@ import { getFileInfo } from "./GetFileInfo.ts";
 import { listFiles } from "./ListFiles.ts";
 import { multiEdit } from "./MultiEdit.ts";
 import { readFile } from "./ReadFile.ts";
+import { readImage } from "./ReadImage.ts";
 import { readManyFiles } from "./ReadManyFiles.ts";
 import { renameFile } from "./RenameFile.ts";
 import { search } from "./Search.ts";
@@ -39,6 +41,7 @@ export const all = [
   listFiles,
   multiEdit,
   readFile,
+  readImage,
   readManyFiles,
   renameFile,
   search,
@@ -50,6 +53,7 @@ export const readonly = [
   getFileInfo,
   listFiles,
   readFile,
+  readImage,
   readManyFiles,
   search,
 ];
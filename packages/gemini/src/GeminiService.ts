@@ -0,0 +1,520 @@
+import { EventEmitter } from "node:events";
+import * as fs from "fs";
+import * as process from "node:process";
+import type { JSONSchema7Definition } from "json-schema";
+import {
+  AbortError,
+  estimateTokenizer,
+  LLMService,
+  Message,
+  PartialJsonParser,
+  readPartData,
+  readServerSentEvents,
+  StreamablePromise,
+  Tool,
+  ToolCall,
+  ToolMessage,
+} from "@fraimwork/core";
+import type {
+  ContentPart,
+  Tokenizer,
+  ToolCallDialect,
+  Usage,
+} from "@fraimwork/core";
+
+export interface GeminiServiceConfig {
+  // defaults to the GEMINI_API_KEY or GOOGLE_API_KEY environment variable
+  apiKey?: string;
+  baseURL?: string;
+  // tokens the model may spend thinking, 0 turns thinking off where the model allows it
+  thinkingBudget?: number;
+  // return summaries of the model's thoughts as reasoning. Only sent when set,
+  // models that don't think reject a thinking config
+  includeThoughts?: boolean;
+}
+
+/**
+ * An error response from the Gemini API, or a prompt it refused to answer
+ */
+export class GeminiError extends Error {
+  public override readonly name = "GeminiError";
+
+  constructor(
+    message: string,
+    // HTTP status, undefined for blocked prompts
+    public readonly status?: number,
+    // e.g. RESOURCE_EXHAUSTED, INVALID_ARGUMENT, or the reason a prompt was blocked
+    public readonly reason?: string,
+    public readonly headers?: Headers,
+  ) {
+    super(message);
+  }
+}
+
+// the API is loosely typed here, the package doesn't depend on Google's SDK
+type Part = {
+  text?: string;
+  thought?: boolean;
+  thoughtSignature?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { name: string; args?: Record<string, any> };
+  functionResponse?: { name: string; response: Record<string, any> };
+};
+type Content = { role: "user" | "model"; parts: Part[] };
+type GenerateContentResponse = {
+  candidates?: { content?: { parts?: Part[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    cachedContentTokenCount?: number;
+  };
+};
+
+/**
+ * LLMService for the Gemini API's generateContent and streamGenerateContent
+ */
+export class GeminiService extends LLMService {
+  protected config: GeminiServiceConfig;
+
+  constructor(config: GeminiServiceConfig = {}) {
+    super();
+    this.config = {
+      baseURL: "https://generativelanguage.googleapis.com/v1beta",
+      ...config,
+      apiKey:
+        config.apiKey ??
+        process.env.GEMINI_API_KEY ??
+        process.env.GOOGLE_API_KEY,
+    };
+  }
+
+  _send(params: {
+    model: string;
+    messages: Message[];
+    tools?: Tool[];
+    temperature?: number;
+    maxTokens?: number;
+    parseToolCalls?: boolean;
+    toolCallDialect?: ToolCallDialect;
+    streaming?: boolean;
+    tokenizer?: Tokenizer;
+    signal?: AbortSignal;
+  }): StreamablePromise<Message> {
+    const { signal, tokenizer = estimateTokenizer } = params;
+    const body = this.createRequestBody(params);
+
+    this.logger.debug("Sending request", {
+      model: params.model,
+      contextTokens: tokenizer.count(
+        params.messages.map((message) => message.content).join("\n"),
+      ),
+    });
+
+    const streamablePromise = new StreamablePromise<Message>(
+      (resolve, reject) => {
+        const fail = (error: any) =>
+          reject(signal?.aborted ? new AbortError() : error);
+
+        if (!params.streaming) {
+          this.request(`${params.model}:generateContent`, body, signal)
+            .then((response) => response.json())
+            .then((response: GenerateContentResponse) => {
+              const message = new Message("assistant", "");
+              addResponse(message, response);
+              resolve(
+                this.processMessageToolCalls(
+                  message,
+                  params.parseToolCalls ?? false,
+                  params.toolCallDialect,
+                ),
+              );
+            })
+            .catch(fail);
+          return;
+        }
+
+        this.handleStreamingRequest(
+          params.model,
+          body,
+          params.parseToolCalls ?? false,
+          params.toolCallDialect,
+          signal,
+        )
+          .then((emitter) => {
+            // Forward events from the internal emitter to the StreamablePromise
+            for (const event of [
+              "chunk",
+              "reasoning",
+              "toolCallStart",
+              "toolCallArgsDelta",
+              "toolCall",
+            ]) {
+              emitter.on(event, (...args) =>
+                streamablePromise.emit(event, ...args),
+              );
+            }
+            emitter.on("error", (error: any) => {
+              const reason = signal?.aborted ? new AbortError() : error;
+              streamablePromise.emit("error", reason);
+              reject(reason);
+            });
+            emitter.on("complete", (message) => {
+              streamablePromise.emit("complete", message);
+              resolve(message);
+            });
+          })
+          .catch(fail);
+      },
+    );
+
+    return streamablePromise;
+  }
+
+  protected createRequestBody(params: {
+    messages: Message[];
+    tools?: Tool[];
+    temperature?: number;
+    maxTokens?: number;
+  }) {
+    const { systemInstruction, contents } = convertMessagesToGemini(
+      params.messages,
+    );
+    const { thinkingBudget, includeThoughts } = this.config;
+
+    return {
+      systemInstruction,
+      contents,
+      tools: params.tools?.length
+        ? [
+            {
+              functionDeclarations: params.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                // tools without parameters must leave them out
+                parameters: Object.keys(tool.parameters?.properties ?? {})
+                  .length
+                  ? toGeminiSchema(tool.parameters!)
+                  : undefined,
+              })),
+            },
+          ]
+        : undefined,
+      generationConfig: {
+        temperature: params.temperature,
+        maxOutputTokens: params.maxTokens,
+        thinkingConfig:
+          thinkingBudget !== undefined || includeThoughts !== undefined
+            ? { thinkingBudget, includeThoughts }
+            : undefined,
+      },
+    };
+  }
+
+  /**
+   * POST a request to a model endpoint, e.g. `gemini-2.5-pro:generateContent`
+   * @throws GeminiError if the API responds with an error
+   */
+  protected async request(
+    endpoint: string,
+    body: object,
+    signal?: AbortSignal,
+  ) {
+    const response = await fetch(`${this.config.baseURL}/models/${endpoint}`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-goog-api-key": this.config.apiKey ?? "",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let error: { status?: string; message?: string } | undefined;
+      try {
+        error = JSON.parse(text).error;
+      } catch {
+        // not JSON, e.g. from a proxy
+      }
+      throw new GeminiError(
+        `Gemini API error ${response.status}: ${error?.message ?? text}`,
+        response.status,
+        error?.status,
+        response.headers,
+      );
+    }
+    return response;
+  }
+
+  private async handleStreamingRequest(
+    model: string,
+    body: object,
+    parseToolCalls: boolean,
+    toolCallDialect: ToolCallDialect | undefined,
+    signal?: AbortSignal,
+  ): Promise<EventEmitter> {
+    const response = await this.request(
+      `${model}:streamGenerateContent?alt=sse`,
+      body,
+      signal,
+    );
+
+    // Create a source emitter for the raw stream
+    const emitter = new EventEmitter();
+    const parsedEmitter = this.handleStreamingWithToolParsing(
+      emitter,
+      parseToolCalls,
+      toolCallDialect,
+    );
+
+    (async () => {
+      // each event is a partial response, added to the reply as it arrives
+      const message = new Message("assistant", "");
+      for await (const { data } of readServerSentEvents(response.body!)) {
+        const added = addResponse(message, data);
+        if (added.reasoning) emitter.emit("reasoning", added.reasoning);
+        if (added.text) emitter.emit("chunk", added.text);
+
+        // function calls arrive whole, so each is started, streamed and ended at once
+        for (const toolCall of added.toolCalls) {
+          const args = JSON.stringify(toolCall.args);
+          emitter.emit("toolCallStart", toolCall.id, toolCall.name);
+          emitter.emit(
+            "toolCallArgsDelta",
+            toolCall.id,
+            args,
+            new PartialJsonParser().push(args),
+          );
+          emitter.emit("toolCall", toolCall);
+        }
+      }
+      emitter.emit("complete", message);
+    })().catch((error) => emitter.emit("error", error));
+
+    return parsedEmitter;
+  }
+}
+
+/**
+ * Add a whole or partial response to the reply
+ * @returns what the response added
+ * @throws GeminiError if the prompt was blocked
+ */
+function addResponse(message: Message, response: GenerateContentResponse) {
+  if (response.promptFeedback?.blockReason) {
+    throw new GeminiError(
+      `Gemini blocked the prompt: ${response.promptFeedback.blockReason}`,
+      undefined,
+      response.promptFeedback.blockReason,
+    );
+  }
+
+  const added = { text: "", reasoning: "", toolCalls: [] as ToolCall[] };
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    if (part.functionCall) {
+      // Gemini doesn't always give calls ids
+      const { name, args = {} } = part.functionCall;
+      const index = message.toolCalls?.length ?? 0;
+      const toolCall = new ToolCall(
+        `${name}-${index}-${Date.now()}`,
+        name,
+        args,
+      );
+      (message.toolCalls ??= []).push(toolCall);
+      added.toolCalls.push(toolCall);
+      if (part.thoughtSignature) {
+        // the signature has to go back with the call, or the model loses its train of thought
+        message.providerData ??= { gemini: { signatures: {} } };
+        message.providerData.gemini.signatures[toolCall.id] =
+          part.thoughtSignature;
+      }
+    } else if (part.thought && part.text) {
+      added.reasoning += part.text;
+    } else if (part.text) {
+      added.text += part.text;
+    }
+  }
+
+  message.content += added.text;
+  if (added.reasoning) {
+    message.reasoning = (message.reasoning ?? "") + added.reasoning;
+  }
+  // each streamed response reports the usage so far
+  message.usage = convertUsage(response.usageMetadata) ?? message.usage;
+  return added;
+}
+
+function convertUsage(
+  usage?: GenerateContentResponse["usageMetadata"],
+): Usage | undefined {
+  if (!usage) return undefined;
+
+  const promptTokens = usage.promptTokenCount ?? 0;
+  // thinking is billed as output
+  const completionTokens =
+    (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    cachedTokens: usage.cachedContentTokenCount,
+  };
+}
+
+/**
+ * Convert messages to Gemini's system instruction and user and model contents.
+ * Tool results become functionResponse parts in the next user turn.
+ */
+export function convertMessagesToGemini(messages: Message[]): {
+  systemInstruction?: { parts: Part[] };
+  contents: Content[];
+} {
+  const system: Part[] = [];
+  const contents: Content[] = [];
+  const toolNames = new Map<string, string>();
+
+  // consecutive messages of the same role are merged, e.g. all results of a round of tool calls
+  const push = (role: Content["role"], parts: Part[]) => {
+    if (!parts.length) return;
+    const previous = contents.at(-1);
+    if (previous?.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      system.push({ text: message.content });
+    } else if (message instanceof ToolMessage) {
+      const response =
+        message.result?.ok === false
+          ? { error: message.content }
+          : { output: message.content };
+      push("user", [
+        {
+          functionResponse: {
+            name: toolNames.get(message.toolCallId) ?? "unknown",
+            response,
+          },
+        },
+        // images returned by the tool follow its response
+        ...(message.parts ?? [])
+          .filter((part) => part.type !== "text")
+          .map(convertContentPart),
+      ]);
+    } else if (message.role === "assistant") {
+      const signatures = message.providerData?.gemini?.signatures ?? {};
+      push("model", [
+        ...(message.content ? [{ text: message.content }] : []),
+        ...(message.toolCalls ?? []).map((toolCall) => {
+          toolNames.set(toolCall.id, toolCall.name);
+          return {
+            functionCall: { name: toolCall.name, args: toolCall.args },
+            thoughtSignature: signatures[toolCall.id],
+          };
+        }),
+      ]);
+    } else {
+      push(
+        "user",
+        message.parts
+          ? message.parts.map(convertContentPart)
+          : message.content
+            ? [{ text: message.content }]
+            : [],
+      );
+    }
+  }
+
+  return {
+    systemInstruction: system.length ? { parts: system } : undefined,
+    contents,
+  };
+}
+
+function convertContentPart(part: ContentPart): Part {
+  switch (part.type) {
+    case "text":
+      return { text: part.text };
+    case "image":
+      return {
+        inlineData: { mimeType: part.mimeType, data: readPartData(part) },
+      };
+    case "file":
+      if (part.mimeType === "application/pdf") {
+        return {
+          inlineData: { mimeType: part.mimeType, data: readPartData(part) },
+        };
+      }
+      // text files are inlined, like the OpenAI service does
+      return {
+        text: `<file path="${part.path}">\n${fs.readFileSync(part.path, "utf-8")}\n</file>`,
+      };
+  }
+}
+
+// the string formats Gemini accepts, others are dropped
+const STRING_FORMATS = ["enum", "date-time"];
+
+/**
+ * Map a JSON schema to the OpenAPI subset Gemini accepts: one type (plus nullable),
+ * anyOf for alternatives, and only the keywords it knows
+ */
+export function toGeminiSchema(definition: JSONSchema7Definition): any {
+  if (typeof definition === "boolean") return {};
+
+  const schema: Record<string, any> = {};
+  const types = [definition.type ?? []].flat();
+  const type = types.find((type) => type !== "null");
+  if (type) schema.type = type;
+  if (types.includes("null")) schema.nullable = true;
+
+  if (definition.description) schema.description = definition.description;
+  if (definition.const !== undefined) {
+    schema.enum = [String(definition.const)];
+  } else if (definition.enum) {
+    // enums are strings only
+    schema.enum = definition.enum.filter((value) => value !== null).map(String);
+    schema.type = "string";
+  }
+  if (
+    definition.format &&
+    (type !== "string" || STRING_FORMATS.includes(definition.format))
+  ) {
+    schema.format = definition.format;
+  }
+
+  if (definition.properties) {
+    schema.properties = Object.fromEntries(
+      Object.entries(definition.properties).map(([name, property]) => [
+        name,
+        toGeminiSchema(property),
+      ]),
+    );
+    if (definition.required?.length) schema.required = definition.required;
+  }
+  if (definition.items && !Array.isArray(definition.items)) {
+    schema.items = toGeminiSchema(definition.items);
+  }
+  const alternatives = definition.anyOf ?? definition.oneOf;
+  if (alternatives) {
+    schema.anyOf = alternatives.map(toGeminiSchema);
+  }
+
+  for (const key of [
+    "minimum",
+    "maximum",
+    "minItems",
+    "maxItems",
+    "minLength",
+    "maxLength",
+  ] as const) {
+    if (definition[key] !== undefined) schema[key] = definition[key];
+  }
+  return schema;
+}
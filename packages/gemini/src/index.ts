@@ -0,0 +1 @@
+export * from "./GeminiService.ts";
@@ -0,0 +1,371 @@
+import * as path from "path";
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { Message, Tool, ToolCall, toolError } from "@fraimwork/core";
+import { GeminiError, GeminiService, toGeminiSchema } from "../src/index.ts";
+import {
+  FakeServer,
+  startFakeServer,
+  streamFixture,
+} from "../../core/test/fakeServer.ts";
+
+const fixture = (name: string) =>
+  streamFixture(path.join(__dirname, "fixtures", name), "text/event-stream");
+
+// for requests that only check what was sent
+const okReply = {
+  body: {
+    candidates: [
+      { content: { role: "model", parts: [{ text: "OK" }] }, index: 0 },
+    ],
+    usageMetadata: { promptTokenCount: 1, candidatesTokenCount: 1 },
+  },
+};
+
+const readFile = new Tool(
+  {
+    name: "ReadFile",
+    description: "Read a file",
+    parameters: { path: { type: "string" } },
+    required: ["path"],
+  },
+  async () => "",
+);
+
+const listFiles = new Tool(
+  { name: "ListFiles", description: "List the project's files" },
+  async () => "",
+);
+
+describe("GeminiService", () => {
+  let server: FakeServer;
+  afterEach(() => server?.close());
+
+  it("streams text and reports usage including thoughts and the cache", async () => {
+    server = await startFakeServer([fixture("text.sse")]);
+    const service = new GeminiService({ baseURL: server.url, apiKey: "key" });
+
+    const reply = service.send({
+      model: "gemini-2.5-flash",
+      messages: [
+        new Message("system", "Be brief."),
+        new Message("user", "Say hello"),
+      ],
+      streaming: true,
+    });
+    const chunks: string[] = [];
+    reply.on("chunk", (chunk) => chunks.push(chunk));
+    const message = await reply;
+
+    expect(chunks).toEqual(["Hello", ", world!"]);
+    expect(message.content).toBe("Hello, world!");
+    // the last event's usage counts, thinking is billed as output
+    expect(message.usage).toEqual({
+      promptTokens: 2060,
+      completionTokens: 6,
+      totalTokens: 2066,
+      cachedTokens: 2048,
+    });
+
+    const [request] = server.requests;
+    expect(request!.url).toBe(
+      "/models/gemini-2.5-flash:streamGenerateContent?alt=sse",
+    );
+    expect(request!.headers["x-goog-api-key"]).toBe("key");
+    expect(request!.body.systemInstruction).toEqual({
+      parts: [{ text: "Be brief." }],
+    });
+    expect(request!.body.contents).toEqual([
+      { role: "user", parts: [{ text: "Say hello" }] },
+    ]);
+  });
+
+  it("sends the generation config and leaves out thinking unless configured", async () => {
+    server = await startFakeServer([okReply, okReply]);
+
+    await new GeminiService({ baseURL: server.url }).send({
+      model: "gemini-2.0-flash",
+      messages: [new Message("user", "Hi")],
+      temperature: 0.2,
+      maxTokens: 100,
+    });
+    await new GeminiService({ baseURL: server.url, thinkingBudget: 0 }).send({
+      model: "gemini-2.5-flash",
+      messages: [new Message("user", "Hi")],
+    });
+
+    expect(server.requests[0]!.url).toBe(
+      "/models/gemini-2.0-flash:generateContent",
+    );
+    expect(server.requests[0]!.body.generationConfig).toEqual({
+      temperature: 0.2,
+      maxOutputTokens: 100,
+    });
+    expect(server.requests[1]!.body.generationConfig).toEqual({
+      thinkingConfig: { thinkingBudget: 0 },
+    });
+  });
+
+  it("declares tools, leaving out empty parameters", async () => {
+    server = await startFakeServer([okReply]);
+    const service = new GeminiService({ baseURL: server.url });
+
+    await service.send({
+      model: "gemini-2.5-flash",
+      messages: [new Message("user", "Hi")],
+      tools: [readFile, listFiles],
+    });
+
+    expect(server.requests[0]!.body.tools).toEqual([
+      {
+        functionDeclarations: [
+          {
+            name: "ReadFile",
+            description: "Read a file",
+            parameters: {
+              type: "object",
+              properties: { path: { type: "string" } },
+              required: ["path"],
+            },
+          },
+          { name: "ListFiles", description: "List the project's files" },
+        ],
+      },
+    ]);
+  });
+
+  it("streams function calls as tool calls", async () => {
+    server = await startFakeServer([fixture("function_call.sse")]);
+    const service = new GeminiService({ baseURL: server.url });
+
+    const reply = service.send({
+      model: "gemini-2.5-flash",
+      messages: [new Message("user", "Show me src/index.ts")],
+      tools: [readFile],
+      streaming: true,
+    });
+    const events: string[] = [];
+    reply.on("toolCallStart", (_id, name) => events.push(`start ${name}`));
+    reply.on("toolCallArgsDelta", (_id, delta) =>
+      events.push(`delta ${delta}`),
+    );
+    reply.on("toolCall", (toolCall: ToolCall) =>
+      events.push(`end ${toolCall.args.path}`),
+    );
+    const message = await reply;
+
+    // calls arrive whole, so the arguments come in one delta
+    expect(events).toEqual([
+      "start ReadFile",
+      'delta {"path":"src/index.ts"}',
+      "end src/index.ts",
+    ]);
+    expect(message.content).toBe("Let me read that file.");
+    expect(message.toolCalls).toHaveLength(1);
+    expect(message.toolCalls![0]).toMatchObject({
+      name: "ReadFile",
+      args: { path: "src/index.ts" },
+    });
+    expect(message.usage).toEqual({
+      promptTokens: 472,
+      completionTokens: 47,
+      totalTokens: 519,
+      cachedTokens: undefined,
+    });
+  });
+
+  it("sends calls with their signatures and results as function responses", async () => {
+    server = await startFakeServer([fixture("function_call.sse"), okReply]);
+    const service = new GeminiService({ baseURL: server.url });
+    const question = new Message("user", "Show me src/index.ts and b.ts");
+
+    const assistant = await service.send({
+      model: "gemini-2.5-flash",
+      messages: [question],
+      tools: [readFile],
+      streaming: true,
+    });
+    const [found] = assistant.toolCalls!;
+    found!.result = { ok: true, content: "export {}" };
+    const missing = new ToolCall("ReadFile-1", "ReadFile", { path: "b.ts" });
+    missing.result = toolError("File not found");
+    assistant.toolCalls!.push(missing);
+
+    await service.send({
+      model: "gemini-2.5-flash",
+      messages: [question, assistant, found!.message, missing.message],
+      tools: [readFile],
+    });
+
+    const { contents } = server.requests[1]!.body;
+    expect(contents[1]).toEqual({
+      role: "model",
+      parts: [
+        { text: "Let me read that file." },
+        {
+          functionCall: { name: "ReadFile", args: { path: "src/index.ts" } },
+          thoughtSignature: "CiQB0e2Kb7mZsJ3xRzKqYq9n",
+        },
+        { functionCall: { name: "ReadFile", args: { path: "b.ts" } } },
+      ],
+    });
+    // both results go in one user turn
+    expect(contents).toHaveLength(3);
+    expect(contents[2]).toEqual({
+      role: "user",
+      parts: [
+        {
+          functionResponse: {
+            name: "ReadFile",
+            response: { output: "export {}" },
+          },
+        },
+        {
+          functionResponse: {
+            name: "ReadFile",
+            response: { error: "Error: File not found" },
+          },
+        },
+      ],
+    });
+  });
+
+  it("returns thoughts as reasoning", async () => {
+    server = await startFakeServer([fixture("thinking.sse")]);
+    const service = new GeminiService({
+      baseURL: server.url,
+      includeThoughts: true,
+    });
+
+    const reply = service.send({
+      model: "gemini-2.5-flash",
+      messages: [new Message("user", "What is 27 * 453?")],
+      streaming: true,
+    });
+    const reasoning: string[] = [];
+    reply.on("reasoning", (chunk) => reasoning.push(chunk));
+    const message = await reply;
+
+    expect(reasoning).toEqual(["The user wants 27 * 453. ", "That is 12231."]);
+    expect(message.reasoning).toBe("The user wants 27 * 453. That is 12231.");
+    expect(message.content).toBe("27 * 453 = 12,231");
+    expect(message.usage).toMatchObject({
+      promptTokens: 12,
+      completionTokens: 57,
+    });
+    expect(server.requests[0]!.body.generationConfig.thinkingConfig).toEqual({
+      includeThoughts: true,
+    });
+  });
+
+  it("reads non-streaming replies", async () => {
+    server = await startFakeServer([
+      {
+        body: {
+          candidates: [
+            {
+              content: {
+                role: "model",
+                parts: [
+                  { text: "Reading it." },
+                  {
+                    functionCall: { name: "ReadFile", args: { path: "a.ts" } },
+                  },
+                ],
+              },
+              finishReason: "STOP",
+            },
+          ],
+          usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 },
+        },
+      },
+    ]);
+    const service = new GeminiService({ baseURL: server.url });
+
+    const message = await service.send({
+      model: "gemini-2.5-flash",
+      messages: [new Message("user", "Read a.ts")],
+      tools: [readFile],
+    });
+
+    expect(message.content).toBe("Reading it.");
+    expect(message.toolCalls![0]).toMatchObject({
+      name: "ReadFile",
+      args: { path: "a.ts" },
+    });
+    expect(message.usage).toEqual({
+      promptTokens: 10,
+      completionTokens: 5,
+      totalTokens: 15,
+      cachedTokens: undefined,
+    });
+  });
+
+  it("rejects with the API's error", async () => {
+    server = await startFakeServer([
+      {
+        status: 429,
+        headers: { "retry-after": "7" },
+        body: {
+          error: {
+            code: 429,
+            message: "Quota exceeded",
+            status: "RESOURCE_EXHAUSTED",
+          },
+        },
+      },
+    ]);
+    const service = new GeminiService({ baseURL: server.url });
+
+    const error = await service
+      .send({ model: "gemini-2.5-flash", messages: [] })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(GeminiError);
+    expect(error.message).toBe("Gemini API error 429: Quota exceeded");
+    expect(error.status).toBe(429);
+    expect(error.reason).toBe("RESOURCE_EXHAUSTED");
+    expect(error.headers.get("retry-after")).toBe("7");
+  });
+
+  it("rejects blocked prompts", async () => {
+    server = await startFakeServer([
+      { body: { promptFeedback: { blockReason: "SAFETY" } } },
+    ]);
+    const service = new GeminiService({ baseURL: server.url });
+
+    const error = await service
+      .send({ model: "gemini-2.5-flash", messages: [new Message("user", "…")] })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(GeminiError);
+    expect(error.status).toBeUndefined();
+    expect(error.reason).toBe("SAFETY");
+  });
+});
+
+describe("toGeminiSchema", () => {
+  it("maps nullable types, enums and alternatives to Gemini's subset", () => {
+    expect(
+      toGeminiSchema({
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          mode: { enum: ["read", "write", null] },
+          limit: { type: ["integer", "null"], minimum: 1 },
+          path: { type: "string", format: "uri" },
+          target: { anyOf: [{ type: "string" }, { type: "number" }] },
+        },
+        required: ["mode"],
+      }),
+    ).toEqual({
+      type: "object",
+      properties: {
+        mode: { type: "string", enum: ["read", "write"] },
+        limit: { type: "integer", nullable: true, minimum: 1 },
+        path: { type: "string" },
+        target: { anyOf: [{ type: "string" }, { type: "number" }] },
+      },
+      required: ["mode"],
+    });
+  });
+});
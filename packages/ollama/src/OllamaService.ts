@@ -0,0 +1,441 @@
+import { EventEmitter } from "node:events";
+import * as fs from "fs";
+import * as process from "node:process";
+import {
+  AbortError,
+  estimateTokenizer,
+  LLMService,
+  Message,
+  PartialJsonParser,
+  readJsonLines,
+  readPartData,
+  StreamablePromise,
+  Tool,
+  ToolCall,
+  ToolMessage,
+} from "@fraimwork/core";
+import type {
+  ContentPart,
+  Tokenizer,
+  ToolCallDialect,
+  Usage,
+} from "@fraimwork/core";
+
+export interface OllamaServiceConfig {
+  // defaults to the OLLAMA_HOST environment variable, or http://localhost:11434
+  baseURL?: string;
+  // the context window the model is loaded with (num_ctx), Ollama's default is small
+  contextSize?: number;
+  // how long the model stays loaded after a request, e.g. "10m", or -1 to keep it loaded
+  keepAlive?: string | number;
+  // let thinking models think before they answer, where the model supports it
+  think?: boolean;
+  // other model options, e.g. top_p or num_gpu
+  options?: Record<string, any>;
+}
+
+/**
+ * A model installed on the Ollama server
+ */
+export interface OllamaModel {
+  name: string;
+  // bytes on disk
+  size: number;
+  modifiedAt: Date;
+  family?: string;
+  parameterSize?: string;
+  quantizationLevel?: string;
+}
+
+/**
+ * An error response from the Ollama API
+ */
+export class OllamaError extends Error {
+  public override readonly name = "OllamaError";
+
+  constructor(
+    message: string,
+    // HTTP status, undefined for errors reported in the middle of a stream
+    public readonly status?: number,
+  ) {
+    super(message);
+  }
+}
+
+type OllamaMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  images?: string[];
+  thinking?: string;
+  tool_calls?: { function: { name: string; arguments: Record<string, any> } }[];
+  tool_name?: string;
+};
+
+type OllamaChatChunk = {
+  message?: OllamaMessage;
+  done: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+};
+
+/**
+ * LLMService for Ollama's native /api/chat protocol
+ */
+export class OllamaService extends LLMService {
+  protected config: OllamaServiceConfig;
+
+  constructor(config: OllamaServiceConfig = {}) {
+    super();
+    this.config = {
+      ...config,
+      baseURL: withProtocol(
+        config.baseURL ?? process.env.OLLAMA_HOST ?? "http://localhost:11434",
+      ),
+    };
+  }
+
+  _send(params: {
+    model: string;
+    messages: Message[];
+    tools?: Tool[];
+    temperature?: number;
+    maxTokens?: number;
+    parseToolCalls?: boolean;
+    toolCallDialect?: ToolCallDialect;
+    streaming?: boolean;
+    tokenizer?: Tokenizer;
+    signal?: AbortSignal;
+  }): StreamablePromise<Message> {
+    const { signal, tokenizer = estimateTokenizer } = params;
+    const body = this.createRequestBody(params);
+
+    this.logger.debug("Sending request", {
+      model: params.model,
+      contextTokens: tokenizer.count(
+        params.messages.map((message) => message.content).join("\n"),
+      ),
+    });
+
+    // usage is missing when the prompt was cached entirely
+    const withUsage = (message: Message) => {
+      message.usage ??= this.estimateUsage(params.messages, message, tokenizer);
+      return message;
+    };
+
+    const streamablePromise = new StreamablePromise<Message>(
+      (resolve, reject) => {
+        const fail = (error: any) =>
+          reject(signal?.aborted ? new AbortError() : error);
+
+        if (!params.streaming) {
+          this.request("/api/chat", body, signal)
+            .then((response) => response.json())
+            .then((reply: OllamaChatChunk) => {
+              const message = new Message(
+                "assistant",
+                reply.message?.content ?? "",
+              );
+              message.reasoning = reply.message?.thinking || undefined;
+              message.toolCalls = convertToolCalls(reply.message?.tool_calls);
+              message.usage = convertUsage(reply);
+              resolve(
+                withUsage(
+                  this.processMessageToolCalls(
+                    message,
+                    params.parseToolCalls ?? false,
+                    params.toolCallDialect,
+                  ),
+                ),
+              );
+            })
+            .catch(fail);
+          return;
+        }
+
+        this.handleStreamingRequest(
+          body,
+          params.parseToolCalls ?? false,
+          params.toolCallDialect,
+          signal,
+        )
+          .then((emitter) => {
+            // Forward events from the internal emitter to the StreamablePromise
+            for (const event of [
+              "chunk",
+              "reasoning",
+              "toolCallStart",
+              "toolCallArgsDelta",
+              "toolCall",
+            ]) {
+              emitter.on(event, (...args) =>
+                streamablePromise.emit(event, ...args),
+              );
+            }
+            emitter.on("error", (error: any) => {
+              const reason = signal?.aborted ? new AbortError() : error;
+              streamablePromise.emit("error", reason);
+              reject(reason);
+            });
+            emitter.on("complete", (message) => {
+              withUsage(message);
+              streamablePromise.emit("complete", message);
+              resolve(message);
+            });
+          })
+          .catch(fail);
+      },
+    );
+
+    return streamablePromise;
+  }
+
+  /**
+   * The models installed on the server
+   */
+  public async listModels(signal?: AbortSignal): Promise<OllamaModel[]> {
+    const response = await this.request("/api/tags", undefined, signal);
+    const { models } = (await response.json()) as { models: any[] };
+    return models.map((model) => ({
+      name: model.name,
+      size: model.size,
+      modifiedAt: new Date(model.modified_at),
+      family: model.details?.family,
+      parameterSize: model.details?.parameter_size,
+      quantizationLevel: model.details?.quantization_level,
+    }));
+  }
+
+  protected createRequestBody(params: {
+    model: string;
+    messages: Message[];
+    tools?: Tool[];
+    temperature?: number;
+    maxTokens?: number;
+    streaming?: boolean;
+  }) {
+    return {
+      model: params.model,
+      messages: convertMessagesToOllama(params.messages),
+      tools: params.tools?.map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters ?? { type: "object", properties: {} },
+        },
+      })),
+      stream: params.streaming ?? false,
+      think: this.config.think,
+      keep_alive: this.config.keepAlive,
+      options: {
+        ...this.config.options,
+        num_ctx: this.config.contextSize,
+        num_predict: params.maxTokens,
+        temperature: params.temperature,
+      },
+    };
+  }
+
+  /**
+   * GET, or POST when there is a body
+   * @throws OllamaError if the server responds with an error
+   */
+  protected async request(path: string, body?: object, signal?: AbortSignal) {
+    const response = await fetch(`${this.config.baseURL}${path}`, {
+      method: body ? "POST" : "GET",
+      headers: body ? { "content-type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+      signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let error: string | undefined;
+      try {
+        error = JSON.parse(text).error;
+      } catch {
+        // not JSON, e.g. from a proxy
+      }
+      throw new OllamaError(
+        `Ollama error ${response.status}: ${error ?? text}`,
+        response.status,
+      );
+    }
+    return response;
+  }
+
+  private async handleStreamingRequest(
+    body: object,
+    parseToolCalls: boolean,
+    toolCallDialect: ToolCallDialect | undefined,
+    signal?: AbortSignal,
+  ): Promise<EventEmitter> {
+    const response = await this.request("/api/chat", body, signal);
+
+    // Create a source emitter for the raw stream
+    const emitter = new EventEmitter();
+    const parsedEmitter = this.handleStreamingWithToolParsing(
+      emitter,
+      parseToolCalls,
+      toolCallDialect,
+    );
+
+    let content = "";
+    let reasoning = "";
+    const toolCalls: ToolCall[] = [];
+    let usage: Usage | undefined;
+
+    (async () => {
+      for await (const chunk of readJsonLines<OllamaChatChunk>(
+        response.body!,
+      )) {
+        if (chunk.error) {
+          throw new OllamaError(`Ollama error: ${chunk.error}`);
+        }
+
+        if (chunk.message?.content) {
+          content += chunk.message.content;
+          emitter.emit("chunk", chunk.message.content);
+        }
+        if (chunk.message?.thinking) {
+          reasoning += chunk.message.thinking;
+          emitter.emit("reasoning", chunk.message.thinking);
+        }
+
+        // tool calls arrive whole, so each is started, streamed and ended at once
+        for (const toolCall of convertToolCalls(
+          chunk.message?.tool_calls,
+          toolCalls.length,
+        ) ?? []) {
+          const args = JSON.stringify(toolCall.args);
+          emitter.emit("toolCallStart", toolCall.id, toolCall.name);
+          emitter.emit(
+            "toolCallArgsDelta",
+            toolCall.id,
+            args,
+            new PartialJsonParser().push(args),
+          );
+          emitter.emit("toolCall", toolCall);
+          toolCalls.push(toolCall);
+        }
+
+        if (chunk.done) {
+          usage = convertUsage(chunk);
+        }
+      }
+
+      const message = new Message("assistant", content);
+      message.reasoning = reasoning || undefined;
+      message.usage = usage;
+      if (toolCalls.length) {
+        message.toolCalls = toolCalls;
+      }
+      emitter.emit("complete", message);
+    })().catch((error) => emitter.emit("error", error));
+
+    return parsedEmitter;
+  }
+}
+
+// OLLAMA_HOST is often just a host and port
+function withProtocol(url: string): string {
+  return (/^https?:\/\//.test(url) ? url : `http://${url}`).replace(/\/$/, "");
+}
+
+// Ollama doesn't give tool calls ids
+function convertToolCalls(
+  toolCalls: OllamaMessage["tool_calls"],
+  offset = 0,
+): ToolCall[] | undefined {
+  if (!toolCalls?.length) return undefined;
+  return toolCalls.map(
+    ({ function: { name, arguments: args } }, i) =>
+      new ToolCall(`${name}-${offset + i}-${Date.now()}`, name, args ?? {}),
+  );
+}
+
+function convertUsage(chunk: OllamaChatChunk): Usage | undefined {
+  if (chunk.prompt_eval_count === undefined) return undefined;
+
+  const completionTokens = chunk.eval_count ?? 0;
+  return {
+    promptTokens: chunk.prompt_eval_count,
+    completionTokens,
+    totalTokens: chunk.prompt_eval_count + completionTokens,
+  };
+}
+
+/**
+ * Convert messages to /api/chat messages. Images go in a message's `images`,
+ * text files are inlined.
+ */
+export function convertMessagesToOllama(messages: Message[]): OllamaMessage[] {
+  const converted: OllamaMessage[] = [];
+  const toolNames = new Map<string, string>();
+  // tool messages can only hold text, so images returned by tools follow in
+  // a user message once all results of the round have been sent
+  let toolAttachments: ContentPart[] = [];
+
+  for (const message of messages) {
+    if (!(message instanceof ToolMessage) && toolAttachments.length) {
+      converted.push(convertParts("user", toolAttachments));
+      toolAttachments = [];
+    }
+
+    if (message instanceof ToolMessage) {
+      converted.push({
+        role: "tool",
+        content: message.content,
+        tool_name: toolNames.get(message.toolCallId),
+      });
+      toolAttachments.push(
+        ...(message.parts ?? []).filter((part) => part.type !== "text"),
+      );
+      continue;
+    }
+
+    const ollamaMessage = message.parts
+      ? convertParts(message.role, message.parts)
+      : { role: message.role, content: message.content };
+    if (message.toolCalls?.length) {
+      ollamaMessage.tool_calls = message.toolCalls.map((toolCall) => {
+        toolNames.set(toolCall.id, toolCall.name);
+        return { function: { name: toolCall.name, arguments: toolCall.args } };
+      });
+    }
+    converted.push(ollamaMessage);
+  }
+
+  if (toolAttachments.length) {
+    converted.push(convertParts("user", toolAttachments));
+  }
+  return converted;
+}
+
+function convertParts(
+  role: OllamaMessage["role"],
+  parts: ContentPart[],
+): OllamaMessage {
+  const text: string[] = [];
+  const images: string[] = [];
+  for (const part of parts) {
+    if (part.type === "text") {
+      text.push(part.text);
+    } else if (part.type === "image") {
+      images.push(readPartData(part));
+    } else if (part.mimeType === "application/pdf") {
+      // documents aren't supported
+      text.push(`[ File: ${part.path} ]`);
+    } else {
+      text.push(
+        `<file path="${part.path}">\n${fs.readFileSync(part.path, "utf-8")}\n</file>`,
+      );
+    }
+  }
+  return {
+    role,
+    content: text.join("\n"),
+    images: images.length ? images : undefined,
+  };
+}
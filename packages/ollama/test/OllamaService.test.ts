@@ -0,0 +1,266 @@
+import * as path from "path";
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { Message, Tool, ToolCall } from "@fraimwork/core";
+import { OllamaError, OllamaService } from "../src/index.ts";
+import {
+  FakeServer,
+  startFakeServer,
+  streamFixture,
+} from "../../core/test/fakeServer.ts";
+
+const fixture = (name: string) =>
+  streamFixture(path.join(__dirname, "fixtures", name), "application/x-ndjson");
+
+// for requests that only check what was sent
+const okReply = {
+  body: {
+    model: "qwen3:8b",
+    message: { role: "assistant", content: "OK" },
+    done: true,
+    prompt_eval_count: 1,
+    eval_count: 1,
+  },
+};
+
+const readFile = new Tool(
+  {
+    name: "ReadFile",
+    description: "Read a file",
+    parameters: { path: { type: "string" } },
+    required: ["path"],
+  },
+  async () => "",
+);
+
+describe("OllamaService", () => {
+  let server: FakeServer;
+  afterEach(() => server?.close());
+
+  it("streams chat replies with thinking and usage", async () => {
+    server = await startFakeServer([fixture("chat.ndjson")]);
+    const service = new OllamaService({
+      baseURL: server.url,
+      contextSize: 32768,
+      keepAlive: "10m",
+      think: true,
+    });
+
+    const reply = service.send({
+      model: "qwen3:8b",
+      messages: [
+        new Message("system", "Be friendly."),
+        new Message("user", "Hi"),
+      ],
+      temperature: 0.2,
+      maxTokens: 100,
+      streaming: true,
+    });
+    const chunks: string[] = [];
+    const reasoning: string[] = [];
+    reply.on("chunk", (chunk) => chunks.push(chunk));
+    reply.on("reasoning", (chunk) => reasoning.push(chunk));
+    const message = await reply;
+
+    expect(chunks).toEqual(["Hello", " there!"]);
+    expect(reasoning).toEqual(["Greet them."]);
+    expect(message.content).toBe("Hello there!");
+    expect(message.reasoning).toBe("Greet them.");
+    expect(message.usage).toEqual({
+      promptTokens: 26,
+      completionTokens: 9,
+      totalTokens: 35,
+    });
+
+    const [request] = server.requests;
+    expect(request!.url).toBe("/api/chat");
+    expect(request!.body).toEqual({
+      model: "qwen3:8b",
+      messages: [
+        { role: "system", content: "Be friendly." },
+        { role: "user", content: "Hi" },
+      ],
+      stream: true,
+      think: true,
+      keep_alive: "10m",
+      options: { num_ctx: 32768, num_predict: 100, temperature: 0.2 },
+    });
+  });
+
+  it("streams tool calls and sends their results back by tool name", async () => {
+    server = await startFakeServer([fixture("tools.ndjson"), okReply]);
+    const service = new OllamaService({ baseURL: server.url });
+
+    const reply = service.send({
+      model: "qwen3:8b",
+      messages: [new Message("user", "Read a.ts and b.ts")],
+      tools: [readFile],
+      streaming: true,
+    });
+    const streamed: ToolCall[] = [];
+    reply.on("toolCall", (toolCall) => streamed.push(toolCall));
+    const message = await reply;
+
+    expect(streamed.map((toolCall) => toolCall.args)).toEqual([
+      { path: "a.ts" },
+      { path: "b.ts" },
+    ]);
+    expect(message.toolCalls).toHaveLength(2);
+    const [first, second] = message.toolCalls!;
+    // Ollama doesn't send ids, so each call gets its own
+    expect(first!.id).not.toBe(second!.id);
+    expect(server.requests[0]!.body.tools).toEqual([
+      {
+        type: "function",
+        function: {
+          name: "ReadFile",
+          description: "Read a file",
+          parameters: readFile.parameters,
+        },
+      },
+    ]);
+
+    first!.result = { ok: true, content: "export const a = 1;" };
+    second!.result = { ok: true, content: "export const b = 2;" };
+    await service.send({
+      model: "qwen3:8b",
+      messages: [
+        new Message("user", "Read a.ts and b.ts"),
+        message,
+        first!.message,
+        second!.message,
+      ],
+      tools: [readFile],
+    });
+
+    expect(server.requests[1]!.body.messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          { function: { name: "ReadFile", arguments: { path: "a.ts" } } },
+          { function: { name: "ReadFile", arguments: { path: "b.ts" } } },
+        ],
+      },
+      { role: "tool", content: "export const a = 1;", tool_name: "ReadFile" },
+      { role: "tool", content: "export const b = 2;", tool_name: "ReadFile" },
+    ]);
+  });
+
+  it("sends images in the message's images", async () => {
+    server = await startFakeServer([okReply, okReply]);
+    const service = new OllamaService({ baseURL: server.url });
+
+    const question = new Message("user", "What is this?");
+    question.parts = [
+      { type: "text", text: "What is this?" },
+      { type: "image", mimeType: "image/png", data: "iVBORw0KGgo=" },
+    ];
+    await service.send({ model: "qwen3:8b", messages: [question] });
+
+    expect(server.requests[0]!.body.messages).toEqual([
+      { role: "user", content: "What is this?", images: ["iVBORw0KGgo="] },
+    ]);
+
+    // tool messages can't hold images, they follow in a user message
+    const assistant = new Message("assistant", "");
+    const screenshot = new ToolCall("shot-1", "Screenshot");
+    screenshot.result = {
+      ok: true,
+      content: "Took a screenshot",
+      parts: [{ type: "image", mimeType: "image/png", data: "R0lGODlh" }],
+    };
+    assistant.toolCalls = [screenshot];
+    await service.send({
+      model: "qwen3:8b",
+      messages: [assistant, screenshot.message],
+    });
+
+    expect(server.requests[1]!.body.messages.slice(1)).toEqual([
+      {
+        role: "tool",
+        content: "Took a screenshot",
+        tool_name: "Screenshot",
+      },
+      { role: "user", content: "", images: ["R0lGODlh"] },
+    ]);
+  });
+
+  it("lists the installed models", async () => {
+    server = await startFakeServer([
+      {
+        body: {
+          models: [
+            {
+              name: "qwen3:8b",
+              model: "qwen3:8b",
+              modified_at: "2025-07-30T12:34:56.789Z",
+              size: 5225388164,
+              digest: "500a1f067a9f",
+              details: {
+                format: "gguf",
+                family: "qwen3",
+                parameter_size: "8.2B",
+                quantization_level: "Q4_K_M",
+              },
+            },
+          ],
+        },
+      },
+    ]);
+    const service = new OllamaService({ baseURL: server.url });
+
+    const models = await service.listModels();
+
+    expect(server.requests[0]).toMatchObject({
+      method: "GET",
+      url: "/api/tags",
+    });
+    expect(models).toEqual([
+      {
+        name: "qwen3:8b",
+        size: 5225388164,
+        modifiedAt: new Date("2025-07-30T12:34:56.789Z"),
+        family: "qwen3",
+        parameterSize: "8.2B",
+        quantizationLevel: "Q4_K_M",
+      },
+    ]);
+  });
+
+  it("rejects with the server's error", async () => {
+    server = await startFakeServer([
+      {
+        status: 404,
+        body: { error: 'model "qwen9" not found, try pulling it first' },
+      },
+    ]);
+    const service = new OllamaService({ baseURL: server.url });
+
+    const error = await service
+      .send({ model: "qwen9", messages: [new Message("user", "Hi")] })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(OllamaError);
+    expect(error.status).toBe(404);
+    expect(error.message).toBe(
+      'Ollama error 404: model "qwen9" not found, try pulling it first',
+    );
+  });
+
+  it("rejects with errors sent in the middle of a stream", async () => {
+    server = await startFakeServer([fixture("error.ndjson")]);
+    const service = new OllamaService({ baseURL: server.url });
+
+    const reply = service.send({
+      model: "qwen3:8b",
+      messages: [new Message("user", "Hi")],
+      streaming: true,
+    });
+    reply.on("error", () => {});
+    const error = await reply.catch((error) => error);
+
+    expect(error).toBeInstanceOf(OllamaError);
+    expect(error.status).toBeUndefined();
+    expect(error.message).toContain("unexpected EOF");
+  });
+});
@@ -1,17 +1,30 @@
 import { EventEmitter } from "node:events";
+import * as fs from "fs";
+import * as path from "path";
 import OpenAI, { ClientOptions } from "openai";
 import type {
+  ChatCompletionCreateParams,
   ChatCompletionCreateParamsStreaming,
   ChatCompletionCreateParamsNonStreaming,
 } from "openai/resources";
 import {
+  AbortError,
   d,
-  estimateTokens,
+  estimateTokenizer,
   LLMService,
   Message,
+  PartialJsonParser,
+  readPartData,
   StreamablePromise,
   Tool,
   ToolCall,
+  ToolMessage,
+} from "@fraimwork/core";
+import type {
+  ContentPart,
+  Tokenizer,
+  ToolCallDialect,
+  Usage,
 } from "@fraimwork/core";
 
 export class OpenAIService extends LLMService {
@@ -29,55 +42,98 @@ export class OpenAIService extends LLMService {
     temperature?: number;
     maxTokens?: number;
     parseToolCalls?: boolean;
+    toolCallDialect?: ToolCallDialect;
     streaming?: boolean;
+    tokenizer?: Tokenizer;
+    signal?: AbortSignal;
   }): StreamablePromise<Message> {
-    params = {
-      ...params,
-      // @ts-ignore
+    const { signal, tokenizer = estimateTokenizer, toolCallDialect } = params;
+    const originalMessages = params.messages;
+    const request = {
+      model: params.model,
       messages: convertMessagesToOpenApi(params.messages),
-      // @ts-ignore
       tools: params.tools?.map((tool) => ({
         type: "function" as const,
         function: {
           name: tool.name,
           description: tool.description,
-          parameters: tool.parameters as any,
+          parameters: tool.parameters as Record<string, unknown>,
         },
       })),
+      temperature: params.temperature,
+      max_tokens: params.maxTokens,
       stream: params.streaming,
-    };
+      stream_options: params.streaming ? { include_usage: true } : undefined,
+    } satisfies ChatCompletionCreateParams;
 
-    const context = params.messages
-      .map((message) => message.content)
-      .join("\n");
-    console.log("context tokens: ", estimateTokens(context));
+    this.logger.debug("Sending request", {
+      model: params.model,
+      contextTokens: tokenizer.count(
+        originalMessages.map((message) => message.content).join("\n"),
+      ),
+    });
+
+    // not every OpenAI-compatible provider reports usage
+    const withUsage = (message: Message) => {
+      message.usage ??= this.estimateUsage(
+        originalMessages,
+        message,
+        tokenizer,
+      );
+      return message;
+    };
 
     const streamablePromise = new StreamablePromise<Message>(
       (resolve, reject) => {
         if (params.streaming) {
           // Streaming mode - handle async
-          this.handleStreamingRequest(params)
+          this.handleStreamingRequest(
+            { ...request, stream: true },
+            params.parseToolCalls,
+            signal,
+            toolCallDialect,
+          )
             .then((emitter) => {
               // Forward events from the internal emitter to the StreamablePromise
               emitter.on("chunk", (chunk) =>
                 streamablePromise.emit("chunk", chunk),
               );
+              emitter.on("reasoning", (chunk) =>
+                streamablePromise.emit("reasoning", chunk),
+              );
+              emitter.on("toolCallStart", (id, name) =>
+                streamablePromise.emit("toolCallStart", id, name),
+              );
+              emitter.on("toolCallArgsDelta", (id, delta, parser) =>
+                streamablePromise.emit("toolCallArgsDelta", id, delta, parser),
+              );
               emitter.on("toolCall", (toolCall) =>
                 streamablePromise.emit("toolCall", toolCall),
               );
               emitter.on("error", (error: any) => {
-                streamablePromise.emit("error", error);
-                reject(error);
+                const reason = signal?.aborted ? new AbortError() : error;
+                streamablePromise.emit("error", reason);
+                reject(reason);
               });
               emitter.on("complete", (message) => {
+                withUsage(message);
                 streamablePromise.emit("complete", message);
                 resolve(message);
               });
             })
-            .catch(reject);
+            .catch((error) =>
+              reject(signal?.aborted ? new AbortError() : error),
+            );
         } else {
           // Non-streaming mode
-          this.handleNonStreamingRequest(params, resolve, reject);
+          this.handleNonStreamingRequest(
+            { ...request, stream: false },
+            params.parseToolCalls,
+            (message) => resolve(withUsage(message)),
+            reject,
+            signal,
+            toolCallDialect,
+          );
         }
       },
     );
@@ -86,21 +142,17 @@ export class OpenAIService extends LLMService {
   }
 
   private async handleNonStreamingRequest(
-    params: {
-      model: string;
-      messages: Message[];
-      tools?: Tool[];
-      temperature?: number;
-      maxTokens?: number;
-      parseToolCalls?: boolean;
-    },
+    request: ChatCompletionCreateParamsNonStreaming,
+    parseToolCalls: boolean | undefined,
     resolve: (value: Message) => void,
     reject: (reason?: any) => void,
+    signal?: AbortSignal,
+    toolCallDialect?: ToolCallDialect,
   ) {
     try {
-      const response = await this.client.chat.completions.create(
-        params as any as ChatCompletionCreateParamsNonStreaming,
-      );
+      const response = await this.client.chat.completions.create(request, {
+        signal,
+      });
 
       if ("error" in response) {
         // @ts-ignore
@@ -108,15 +160,20 @@ export class OpenAIService extends LLMService {
       }
       const message = new Message(
         "assistant",
-        ("reasoning" in response.choices[0]!.message &&
-        response.choices[0]!.message.reasoning
-          ? `\n<think>\n${response.choices[0]!.message.reasoning}\n</think>\n`
-          : "") + response.choices[0]?.message?.content || "",
+        response.choices[0]?.message?.content || "",
       );
+      message.usage = convertUsage(response.usage);
+      message.reasoning = getReasoning(response.choices[0]?.message);
 
-      if (params.parseToolCalls) {
+      if (parseToolCalls) {
         // Use base class tool parsing for manual parsing
-        resolve(this.processMessageToolCalls(message, params.parseToolCalls));
+        resolve(
+          this.processMessageToolCalls(
+            message,
+            parseToolCalls,
+            toolCallDialect,
+          ),
+        );
       } else if (response.choices[0]?.message?.tool_calls) {
         // Use native OpenAI tool calls
         try {
@@ -132,60 +189,94 @@ export class OpenAIService extends LLMService {
               ),
           );
         } catch (e: any) {
-          console.error(e.stack);
+          this.logger.error("Failed to parse native tool calls", {
+            error: e,
+          });
         }
         resolve(message);
       } else {
         resolve(message);
       }
     } catch (error) {
-      reject(error);
+      reject(signal?.aborted ? new AbortError() : error);
     }
   }
 
-  private async handleStreamingRequest(params: {
-    model: string;
-    messages: Message[];
-    tools?: Tool[];
-    temperature?: number;
-    maxTokens?: number;
-    parseToolCalls?: boolean;
-  }): Promise<EventEmitter> {
-    const { parseToolCalls } = params;
-
-    const stream = (await this.client.chat.completions.create(
-      params as any as ChatCompletionCreateParamsStreaming,
-    )) as AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
+  private async handleStreamingRequest(
+    request: ChatCompletionCreateParamsStreaming,
+    parseToolCalls: boolean | undefined,
+    signal?: AbortSignal,
+    toolCallDialect?: ToolCallDialect,
+  ): Promise<EventEmitter> {
+    const stream = await this.client.chat.completions.create(request, {
+      signal,
+    });
 
     // Create a source emitter for the raw stream
     const emitter = new EventEmitter();
 
-    let thinking = false;
-    const toolCalls: (ToolCall & { tempArgs?: string })[] = [];
+    const toolCalls: (ToolCall & {
+      tempArgs?: string;
+      parser?: PartialJsonParser;
+      started?: boolean;
+    })[] = [];
     let accumulatedContent = "";
+    let accumulatedReasoning = "";
+    let usage: Usage | undefined;
 
     // Use base class parsing to handle tool parsing if needed
     const parsedEmitter = this.handleStreamingWithToolParsing(
       emitter,
       parseToolCalls || false,
+      toolCallDialect,
     );
 
     try {
       (async () => {
         for await (const chunk of stream) {
+          // the final chunk carries the usage and has no choices
+          if (chunk.usage) {
+            usage = convertUsage(chunk.usage);
+          }
+          if (!chunk.choices[0]) continue;
+
           // Handle native tool calls (when parseToolCalls=false)
           if (!parseToolCalls && chunk.choices[0]!.delta.tool_calls) {
             for (const toolCall of chunk.choices[0]!.delta.tool_calls) {
               if (!toolCalls[toolCall.index]) {
                 toolCalls[toolCall.index] = new ToolCall(String(toolCall.id));
                 toolCalls[toolCall.index]!.tempArgs = "";
+                toolCalls[toolCall.index]!.parser = new PartialJsonParser();
               }
+              const current = toolCalls[toolCall.index]!;
               if (toolCall.function?.name) {
-                toolCalls[toolCall.index]!.name += toolCall.function.name;
+                current.name += toolCall.function.name;
+              }
+              const argsDelta = toolCall.function?.arguments;
+              if (argsDelta) {
+                current.tempArgs += argsDelta;
+                current.parser!.push(argsDelta);
               }
-              if (toolCall.function?.arguments) {
-                toolCalls[toolCall.index]!.tempArgs +=
-                  toolCall.function.arguments;
+
+              // arguments can't be shown before the tool's name is known
+              if (!current.started && current.name) {
+                current.started = true;
+                emitter.emit("toolCallStart", current.id, current.name);
+                if (current.tempArgs) {
+                  emitter.emit(
+                    "toolCallArgsDelta",
+                    current.id,
+                    current.tempArgs,
+                    current.parser,
+                  );
+                }
+              } else if (current.started && argsDelta) {
+                emitter.emit(
+                  "toolCallArgsDelta",
+                  current.id,
+                  argsDelta,
+                  current.parser,
+                );
               }
             }
           }
@@ -197,22 +288,11 @@ export class OpenAIService extends LLMService {
             emitter.emit("chunk", content);
           }
 
-          // Handle reasoning/thinking
-          if (
-            "reasoning" in chunk.choices[0]!.delta &&
-            chunk.choices[0]!.delta.reasoning
-          ) {
-            const reasoning = chunk.choices[0]!.delta.reasoning;
-            if (!thinking) {
-              thinking = true;
-              emitter.emit("chunk", "\n<think>\n");
-            }
-            emitter.emit("chunk", reasoning);
-          } else {
-            if (thinking) {
-              thinking = false;
-              emitter.emit("chunk", "\n</think>\n");
-            }
+          // reasoning is kept out of the content
+          const reasoning = getReasoning(chunk.choices[0]!.delta);
+          if (reasoning) {
+            accumulatedReasoning += reasoning;
+            emitter.emit("reasoning", reasoning);
           }
         }
 
@@ -230,18 +310,23 @@ export class OpenAIService extends LLMService {
                 emitter.emit("toolCall", toolCall);
               } catch (e) {
                 emitter.emit("error", e);
-                console.log(toolCall);
+                this.logger.warn("Failed to parse tool call arguments", {
+                  tool: toolCall.name,
+                  args: toolCall.tempArgs,
+                });
               }
             }
           }
         }
 
         const message = new Message("assistant", accumulatedContent);
+        message.usage = usage;
+        message.reasoning = accumulatedReasoning || undefined;
         if (!parseToolCalls && toolCalls.length > 0) {
           message.toolCalls = toolCalls.filter((tc) => tc?.name);
         }
         emitter.emit("complete", message);
-      })().then();
+      })().catch((error) => emitter.emit("error", error));
     } catch (error) {
       emitter.emit("error", error);
     }
@@ -250,27 +335,116 @@ export class OpenAIService extends LLMService {
   }
 }
 
+/**
+ * Reasoning isn't part of the OpenAI API. OpenRouter calls it `reasoning`,
+ * DeepSeek and vLLM `reasoning_content`.
+ */
+function getReasoning(message?: object): string | undefined {
+  if (!message) return undefined;
+  const { reasoning, reasoning_content } = message as {
+    reasoning?: string | null;
+    reasoning_content?: string | null;
+  };
+  return reasoning || reasoning_content || undefined;
+}
+
+function convertUsage(usage?: OpenAI.CompletionUsage): Usage | undefined {
+  if (!usage) return undefined;
+
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens,
+  };
+}
+
 export function convertMessagesToOpenApi(
   messages: Message[],
 ): OpenAI.ChatCompletionMessageParam[] {
-  return messages.map((message: Message) => ({
-    role: message.role as any,
-    content: message.content,
-    tool_calls:
-      "toolCalls" in message
-        ? message.toolCalls?.map((toolCall) => {
-            return {
-              type: "function",
-              id: toolCall.id,
-              function: {
-                name: toolCall.name,
-                arguments: JSON.stringify(toolCall.args),
-              },
-            };
-          })
-        : undefined,
-    tool_call_id: ("toolCallId" in message ? message.toolCallId : undefined)!,
-  }));
+  const converted: OpenAI.ChatCompletionMessageParam[] = [];
+  // tool messages can only hold text, so images returned by tools follow in
+  // a user message once all results of the round have been sent
+  let toolAttachments: OpenAI.ChatCompletionContentPart[] = [];
+
+  for (const message of messages) {
+    if (!(message instanceof ToolMessage) && toolAttachments.length) {
+      converted.push({ role: "user", content: toolAttachments });
+      toolAttachments = [];
+    }
+
+    if (message instanceof ToolMessage && message.parts) {
+      toolAttachments.push(
+        {
+          type: "text",
+          text: `Attachments from tool call ${message.toolCallId}:`,
+        },
+        ...message.parts
+          .filter((part) => part.type !== "text")
+          .map(convertContentPart),
+      );
+    }
+
+    converted.push({
+      role: message.role as any,
+      // only user messages can have images or files
+      content:
+        message.parts && message.role === "user"
+          ? message.parts.map(convertContentPart)
+          : message.content,
+      tool_calls:
+        "toolCalls" in message
+          ? message.toolCalls?.map((toolCall) => {
+              return {
+                type: "function",
+                id: toolCall.id,
+                function: {
+                  name: toolCall.name,
+                  arguments: JSON.stringify(toolCall.args),
+                },
+              };
+            })
+          : undefined,
+      tool_call_id: ("toolCallId" in message ? message.toolCallId : undefined)!,
+    } as OpenAI.ChatCompletionMessageParam);
+  }
+
+  if (toolAttachments.length) {
+    converted.push({ role: "user", content: toolAttachments });
+  }
+  return converted;
+}
+
+function convertContentPart(
+  part: ContentPart,
+): OpenAI.ChatCompletionContentPart {
+  switch (part.type) {
+    case "text":
+      return { type: "text", text: part.text };
+    case "image":
+      return {
+        type: "image_url",
+        image_url: {
+          url: `data:${part.mimeType};base64,${readPartData(part)}`,
+          detail: part.detail,
+        },
+      };
+    case "file":
+      if (part.mimeType === "application/pdf") {
+        return {
+          type: "file",
+          file: {
+            filename: path.basename(part.path),
+            file_data: `data:${part.mimeType};base64,${readPartData(part)}`,
+          },
+        };
+      }
+      // text files are inlined, which works with every model
+      return {
+        type: "text",
+        text: `<file path="${part.path}">\n${fs.readFileSync(part.path, "utf-8")}\n</file>`,
+      };
+  }
 }
 
 /**
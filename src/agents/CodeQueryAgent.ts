@@ -1,6 +1,7 @@
 import { codeIndexLite as codeIndex, findSymbol } from "@fraimwork/codetools";
-import { Agent, Message } from "@fraimwork/core";
+import { Agent } from "@fraimwork/core";
 import { listFiles, readFile, search } from "@fraimwork/filetools";
+import { codeIndexContext } from "../hooks/codeIndexContext.ts";
 
 export class CodeQueryAgent extends Agent {
   static defaultModel = "qwen/qwen3-30b-a3b:free";
@@ -32,20 +33,5 @@ export class CodeQueryAgent extends Agent {
 
   public temperature = 0.2;
   public tools = [listFiles(), search(), findSymbol(), readFile()];
-
-  protected override async processMessage(
-    message: Message,
-    context: Message[],
-  ): Promise<Message[]> {
-    context.unshift(
-      new Message(
-        "system",
-        `This is the index for the current working directory:
-${await codeIndex().call({})}
-`,
-      ),
-    );
-
-    return super.processMessage(message, context);
-  }
+  public hooks = [codeIndexContext(codeIndex())];
 }
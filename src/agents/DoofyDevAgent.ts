@@ -1,4 +1,4 @@
-import { Agent, Message } from "@fraimwork/core";
+import { Agent } from "@fraimwork/core";
 import {codeIndexLite as codeIndex, findSymbol, typeCheck} from "@fraimwork/codetools";
 import {
   deleteFile,
@@ -12,6 +12,7 @@ import {
   writeFile,
 } from "@fraimwork/filetools";
 // import { fixTypeErrors } from "../tools/fixTypeErrors";
+import { codeIndexContext } from "../hooks/codeIndexContext.ts";
 
 const bt = "`";
 const tbt = "```";
@@ -56,7 +57,7 @@ export class DoofyDevAgent extends Agent {
   ${tbt}
 
   ## Tool Usage
-  Use any of the tools at your disposal at your own discretion.  Permission is not required.
+  Use any of the tools at your disposal at your own discretion.
 
   ## Best Practices
   - When finding symbols, read their source files for context
@@ -128,17 +129,5 @@ export class DoofyDevAgent extends Agent {
     // codeIndex(),
     // fixTypeErrors(),
   ];
-
-  protected override async getHistoricalContext(): Promise<Message[]> {
-    return [
-      new Message("system", this.systemPrompt),
-      new Message(
-        "system",
-        `This is the index for the current working directory:
-${await codeIndex().call({})}
-`,
-      ),
-      ...this.history,
-    ];
-  }
+  public hooks = [codeIndexContext(codeIndex())];
 }
@@ -1,5 +1,4 @@
 import { FailoverAgent } from "@fraimwork/core";
-import { Message } from "@fraimwork/core";
 import { createModelConfig, MODELS } from "../models.js";
 import { codeIndexLite as codeIndex, findSymbol } from "@fraimwork/codetools";
 import {
@@ -14,6 +13,7 @@ import {
   writeFile,
 } from "@fraimwork/filetools";
 import axios from "axios";
+import { codeIndexContext } from "../hooks/codeIndexContext.ts";
 
 const bt = "`";
 const tbt = "```";
@@ -26,6 +26,8 @@ export class FastAgent extends FailoverAgent {
     "google/gemini-2.0-flash-exp:free",
     "qwen/qwen3-30b-a3b:free",
   ];
+  // Summarizes old turns once the code index and history outgrow the context window
+  public static summaryModel = "google/gemini-2.5-flash";
   // Lower default temperature for more deterministic code edits
   public temperature = 0.3;
   public tools: any[] = [
@@ -40,6 +42,7 @@ export class FastAgent extends FailoverAgent {
     renameFile(),
     deleteFile(),
   ];
+  public hooks = [codeIndexContext(codeIndex())];
   public readonly systemPrompt = `You are Doofy, a TypeScript programming assistant. Today is ${new Date().toLocaleDateString()}.
 
   ## Personality
@@ -78,7 +81,7 @@ export class FastAgent extends FailoverAgent {
   ${tbt}
 
   ## Tool Usage
-  Use any of the tools at your disposal at your own discretion.  Permission is not required.
+  Use any of the tools at your disposal at your own discretion.
 
   ## Best Practices
   - When finding symbols, read their source files for context
@@ -161,7 +164,10 @@ export class FastAgent extends FailoverAgent {
           const response = await axios.get(url);
           return { name, ...response.data.data[0].stats };
         } catch (error) {
-          console.error(`Failed to fetch stats for ${name}:`, error);
+          this.logger.warn("Failed to fetch model stats", {
+            model: name,
+            error,
+          });
           return { name, avg_latency: Infinity }; // Penalize failed fetches
         }
       }
@@ -180,17 +186,4 @@ export class FastAgent extends FailoverAgent {
         b.p50_throughput * tokenWeight,
     );
   }
-
-  protected override async getHistoricalContext(): Promise<Message[]> {
-    return [
-      new Message("system", this.systemPrompt),
-      new Message(
-        "system",
-        `This is the index for the current working directory:
-${await codeIndex().call({})}
-`,
-      ),
-      ...this.history,
-    ];
-  }
 }
@@ -1,5 +1,4 @@
 import { FailoverAgent } from "@fraimwork/core";
-import { Message } from "@fraimwork/core";
 import { createModelConfig } from "../models.js";
 import { codeIndex, findSymbol } from "@fraimwork/codetools";
 import {
@@ -13,6 +12,7 @@ import {
   renameFile,
   writeFile,
 } from "@fraimwork/filetools";
+import { codeIndexContext } from "../hooks/codeIndexContext.ts";
 
 const bt = "`";
 const tbt = "```";
@@ -36,6 +36,7 @@ export class FreeAgent extends FailoverAgent {
     renameFile(),
     deleteFile(),
   ];
+  public hooks = [codeIndexContext(codeIndex(), { cache: true })];
   public readonly systemPrompt = `You are Doofy, a TypeScript programming assistant. Today is ${new Date().toLocaleDateString()}.
 
   ## Personality
@@ -74,7 +75,7 @@ export class FreeAgent extends FailoverAgent {
   ${tbt}
 
   ## Tool Usage
-  Use any of the tools at your disposal at your own discretion.  Permission is not required.
+  Use any of the tools at your disposal at your own discretion.
 
   ## Best Practices
   - When finding symbols, read their source files for context
@@ -136,50 +137,8 @@ export class FreeAgent extends FailoverAgent {
     );
   }
 
-  private _indexCache?: any;
-  public invalidateCache(): void {
-    this._indexCache = null;
-  }
-
-  protected override async processMessage(
-    message: any,
-    context: any[],
-  ): Promise<any[]> {
-    // Use cached index if not invalidated
-    this._indexCache = this._indexCache ?? (await codeIndex().call({}));
-
-    context.unshift(
-      new Message(
-        "system",
-        `This is the index for the current working directory:
-${this._indexCache}
-`,
-      ),
-    );
-
-    return super.processMessage(message, context);
-  }
-
   protected override async processReply(message: any, streaming: boolean) {
-    // Invalidate index cache on any mutating tool call
-    const mutatingTools = new Set([
-      "WriteFile",
-      "EditFile",
-      "MultiEdit",
-      "FindAndReplace",
-      "RenameFile",
-      "DeleteFile",
-    ]);
-
-    if (
-      message.toolCalls?.some((toolCall: any) =>
-        mutatingTools.has(toolCall.name),
-      )
-    ) {
-      this.invalidateCache();
-    }
-
-    console.log({ model: this.modelName });
+    this.logger.debug("Reply received", { model: this.modelName });
     return super.processReply(message, streaming);
   }
 }
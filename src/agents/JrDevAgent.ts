@@ -19,7 +19,7 @@ export class JrDevAgent extends Agent {
   3. Only use functions/methods you've confirmed exist
 
   ## Tool Usage
-  Use any of the tools at your disposal at your own discretion.  Permission is not required.
+  Use any of the tools at your disposal at your own discretion.
 
   ## Best Practices
   - When finding symbols, read their source files for context
@@ -1,16 +1,69 @@
-import { Message, Tool, estimateTokens } from "@fraimwork/core";
+import {
+  AbortError,
+  createSession,
+  fileReference,
+  forkSession,
+  imageFromFile,
+  isImagePath,
+  Message,
+  requireApproval,
+  restoreSession,
+  Tool,
+  UsageTracker,
+} from "@fraimwork/core";
+import type {
+  ApprovalRequest,
+  ApprovalResponse,
+  ContentPart,
+  Session,
+  SessionStore,
+  StreamEvent,
+} from "@fraimwork/core";
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as readline from "readline";
 import { AgentFactory } from "./lib/AgentFactory.ts";
 import { DoofyDevAgent } from "./agents/DoofyDevAgent.ts";
 import { FastAgent } from "./agents/FastAgent.js";
+import { configureTelemetry } from "./lib/telemetry.ts";
+import { createSessionStore, findSession } from "./lib/sessions.ts";
 
+configureTelemetry();
 let agent = AgentFactory.getAgent(DoofyDevAgent);
 
+// usage of every request made by the agent in this session
+const sessionUsage = new UsageTracker();
+agent.usage.parent = sessionUsage;
+agent.use(requireApproval(approveInTerminal));
+
+// the conversation is saved after every reply so it can be resumed later
+let sessionStore: SessionStore;
+let session: Session | undefined;
+
+// files added with /attach, sent with the next message
+let attachments: ContentPart[] = [];
+
+// reasoning of the last reply, /reasoning shows it when the display is collapsed
+let lastReasoning = "";
+
 const rl = readline.createInterface({
   input: process.stdin,
   output: process.stdout,
 });
 
+// Ctrl-C cancels the request in progress, or exits when idle
+let activeRequest: AbortController | undefined;
+rl.on("SIGINT", () => {
+  if (activeRequest) {
+    activeRequest.abort();
+    return;
+  }
+  console.log("\nGoodbye!");
+  process.exit(0);
+});
+
 async function interactiveCLI() {
   const splashScreen = `
 [38;5;46m [38;5;46m [38;5;46m [38;5;46m [38;5;46m_[38;5;46m_[38;5;46m_[38;5;83m_[38;5;83m [38;5;83m [38;5;83m [38;5;83m [38;5;83m [38;5;120m [38;5;120m [38;5;120m [38;5;120m [38;5;120m [38;5;120m [38;5;120m [38;5;120m [38;5;120m [38;5;120m_[38;5;83m_[38;5;83m_[38;5;83m_[38;5;83m [38;5;83m [38;5;83m [38;5;46m [38;5;46m [38;5;46m [38;5;46m [38;5;46m [38;5;46m [38;5;46m [0m        ,__
@@ -40,33 +93,28 @@ How can Doofy "help" you today?
 
       if (userInput.trim() === "") continue;
 
-      agent.on("chunk", (chunk: string) => {
-        if (
-          !chunk.includes("<tool-calls>") &&
-          !chunk.includes("</tool-calls>")
-        ) {
-          process.stdout.write(chunk);
-        }
-      });
-
-      agent.on("error", (error: Error) => {
-        console.error("\nError:", error.message);
-      });
-
-      agent.on("complete", () => {
-        process.stdout.write("\n");
-      });
-
-      await agent.send(new Message("user", userInput), true);
+      const message = attachments.length
+        ? new Message("user", [
+            { type: "text", text: userInput },
+            ...attachments,
+          ])
+        : new Message("user", userInput);
+      attachments = [];
 
-      // Clean up listeners
-      agent.removeAllListeners("chunk");
-      agent.removeAllListeners("toolCall");
-      agent.removeAllListeners("error");
-      agent.removeAllListeners("complete");
+      activeRequest = new AbortController();
+      try {
+        await printReply(agent.send(message, true, activeRequest.signal));
+      } finally {
+        activeRequest = undefined;
+        await saveSession();
+      }
 
       console.log("\n");
     } catch (error) {
+      if (error instanceof AbortError) {
+        console.log("\n[ Cancelled ]\n");
+        continue;
+      }
       console.error("Error:", error);
       console.log("Please try again.\n");
     }
@@ -75,6 +123,60 @@ How can Doofy "help" you today?
   rl.close();
 }
 
+/**
+ * Print a reply as it streams, with reasoning and tool results dimmed
+ */
+async function printReply(events: AsyncIterable<StreamEvent>) {
+  const display = agent.reasoningPolicy.display;
+  lastReasoning = "";
+  let thinking = false;
+  let midLine = false;
+
+  for await (const event of events) {
+    if (thinking && event.type !== "reasoning") {
+      thinking = false;
+      if (display === "show") process.stdout.write("\n\n");
+    }
+
+    switch (event.type) {
+      case "reasoning":
+        if (!thinking) {
+          thinking = true;
+          if (lastReasoning) lastReasoning += "\n\n";
+          if (display === "collapse") {
+            console.log("\x1b[2m[ Thinking... /reasoning to expand ]\x1b[0m");
+          }
+        }
+        lastReasoning += event.text;
+        if (display === "show") {
+          process.stdout.write(`\x1b[2m${event.text}\x1b[0m`);
+        }
+        break;
+      case "text":
+        if (
+          !event.text.includes("<tool-calls>") &&
+          !event.text.includes("</tool-calls>")
+        ) {
+          process.stdout.write(event.text);
+          midLine = !event.text.endsWith("\n");
+        }
+        break;
+      case "toolResult": {
+        const { name, args, result } = event.toolCall;
+        if (midLine) process.stdout.write("\n");
+        midLine = false;
+        console.log(
+          `\x1b[2m[ ToolCall: ${name} ${JSON.stringify(args).replace(/\s+/g, " ").substring(0, 60)} ]\n${result?.content.substring(0, 80).replace(/\s+/g, " ")}\x1b[0m`,
+        );
+        break;
+      }
+      case "done":
+        process.stdout.write("\n");
+        break;
+    }
+  }
+}
+
 async function handleCommand(userInput: string) {
   const [commandName, ...args] = userInput.slice(1).split(" ");
 
@@ -83,13 +185,79 @@ async function handleCommand(userInput: string) {
       console.log("Goodbye!");
       process.exit(0); // Exit the process
     case "clear":
-      (agent as any).history = [];
+      agent.reset();
+      sessionUsage.reset();
+      session = undefined;
+      attachments = [];
       console.clear();
       console.log("History cleared!\n");
       return;
+    case "save":
+      session = createSession(agent, {
+        ...session,
+        title: args.join(" ") || session?.title,
+      });
+      await sessionStore.save(session);
+      console.log(`Saved session ${session.id}\n`);
+      return;
+    case "sessions":
+      await listSessions();
+      return;
+    case "resume": {
+      const resumed = args[0] && (await findSession(sessionStore, args[0]));
+      if (!resumed) {
+        console.log(`Session not found: ${args[0] ?? ""}\n`);
+        return;
+      }
+      switchSession(resumed);
+      console.log(
+        `Resumed "${resumed.title ?? resumed.id}" (${resumed.messages.length} messages)\n`,
+      );
+      return;
+    }
+    case "fork": {
+      await saveSession();
+      const source = args[0]
+        ? await findSession(sessionStore, args[0])
+        : session;
+      if (!source) {
+        console.log("Nothing to fork yet.\n");
+        return;
+      }
+      const forked = forkSession(source);
+      await sessionStore.save(forked);
+      switchSession(forked);
+      console.log(`Forked into session ${forked.id}\n`);
+      return;
+    }
+    case "attach": {
+      const filePath = args.join(" ");
+      if (!filePath || !fs.existsSync(filePath)) {
+        console.log(`File not found: ${filePath}\n`);
+        return;
+      }
+      // images are read now, other files when the message is sent
+      attachments.push(
+        isImagePath(filePath)
+          ? imageFromFile(filePath)
+          : fileReference(filePath),
+      );
+      console.log(`Attached ${filePath} to your next message\n`);
+      return;
+    }
+    case "reasoning":
+      console.log(
+        lastReasoning
+          ? `\x1b[2m${lastReasoning}\x1b[0m\n`
+          : "The last reply had no reasoning.\n",
+      );
+      return;
     case "help":
       showHelp();
       return;
+    case "cost":
+      showCost();
+      return;
   }
 
   const tool = (agent.tools as Tool[]).find((t) => t.name === commandName);
@@ -130,8 +298,8 @@ async function handleCommand(userInput: string) {
 
       console.log(`\nExecuting tool: ${tool.name}`);
       const result = await tool.call(params);
-      console.log("Tool Result:\n", result);
-      console.log(`\n${estimateTokens(String(result))} tokens`);
+      console.log("Tool Result:\n", result.content);
+      console.log(`\n${agent.tokenizer.count(result.content)} tokens`);
       console.log("");
     } catch (error) {
       console.error(`Error executing tool ${tool.name}:`, error);
@@ -142,17 +310,140 @@ async function handleCommand(userInput: string) {
   }
 }
 
-function askQuestion(question: string): Promise<string> {
-  return new Promise((resolve) => {
-    rl.question(question, resolve);
+function askQuestion(question: string, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!signal) {
+      rl.question(question, resolve);
+      return;
+    }
+    signal.addEventListener("abort", () => reject(new AbortError()), {
+      once: true,
+    });
+    rl.question(question, { signal }, resolve);
   });
 }
 
+/**
+ * Show what a tool call would change and ask the user to approve, deny or edit it
+ */
+async function approveInTerminal(
+  request: ApprovalRequest,
+  signal?: AbortSignal,
+): Promise<ApprovalResponse> {
+  const { toolCall, risk, preview } = request;
+
+  console.log(`\n\x1b[33m[ ${toolCall.name} needs approval (${risk}) ]\x1b[0m`);
+  console.log(
+    preview ? colorDiff(preview) : JSON.stringify(toolCall.args, null, 2),
+  );
+
+  while (true) {
+    const answer = (
+      await askQuestion("Approve? [y]es / [n]o / [e]dit / [a]lways: ", signal)
+    )
+      .trim()
+      .toLowerCase();
+
+    switch (answer) {
+      case "y":
+      case "yes":
+        return { approved: true };
+      case "a":
+      case "always":
+        // allow this tool without asking for the rest of the session
+        agent.approvalPolicy = {
+          ...agent.approvalPolicy,
+          rules: [
+            { tool: toolCall.name, decision: "allow" },
+            ...(agent.approvalPolicy.rules ?? []),
+          ],
+        };
+        return { approved: true };
+      case "n":
+      case "no": {
+        const reason = await askQuestion(
+          "Reason for the model (optional): ",
+          signal,
+        );
+        return { approved: false, reason: reason.trim() || undefined };
+      }
+      case "e":
+      case "edit": {
+        const args = editArguments(toolCall.args);
+        if (args) return { approved: true, args };
+        console.log("The edited arguments are not valid JSON.");
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Open the tool call's arguments in $EDITOR
+ * @returns The edited arguments, or undefined if they aren't valid JSON
+ */
+function editArguments(
+  args: Record<string, any>,
+): Record<string, any> | undefined {
+  const file = path.join(os.tmpdir(), `doofy-args-${Date.now()}.json`);
+  fs.writeFileSync(file, JSON.stringify(args, null, 2));
+
+  rl.pause();
+  try {
+    spawnSync(process.env.EDITOR || "vi", [file], { stdio: "inherit" });
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    return undefined;
+  } finally {
+    rl.resume();
+    fs.rmSync(file, { force: true });
+  }
+}
+
+function colorDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) return line;
+      if (line.startsWith("+")) return `\x1b[32m${line}\x1b[0m`;
+      if (line.startsWith("-")) return `\x1b[31m${line}\x1b[0m`;
+      if (line.startsWith("@@")) return `\x1b[36m${line}\x1b[0m`;
+      return line;
+    })
+    .join("\n");
+}
+
+function showCost() {
+  const { total, byModel, requests } = sessionUsage;
+  const formatCost = (cost?: number) =>
+    cost === undefined ? "unknown" : `$${cost.toFixed(4)}`;
+
+  console.log(`
+Requests: ${requests}
+Tokens:   ${total.totalTokens} (${total.promptTokens} prompt, ${total.completionTokens} completion${total.cachedTokens ? `, ${total.cachedTokens} cached` : ""})${total.estimated ? " (estimated)" : ""}
+Cost:     ${formatCost(total.cost)}
+`);
+
+  for (const [model, usage] of Object.entries(byModel)) {
+    console.log(
+      `  ${model}: ${usage.totalTokens} tokens, ${formatCost(usage.cost)}`,
+    );
+  }
+  console.log("");
+}
+
 function showHelp() {
   console.log(`
 Available Commands:
   help     - Show this help message
-  clear    - Clear conversation history
+  clear    - Clear conversation history and start a new session
+  save [title]  - Save the session, optionally giving it a title
+  sessions - List saved sessions
+  resume <id>   - Continue a saved session (an id prefix is enough)
+  fork [id]     - Copy the current or a saved session and continue the copy
+  cost     - Show token usage and cost of this session
+  attach <path> - Send an image or file with your next message
+  reasoning - Show the reasoning behind the last reply
   exit     - Exit the CLI
 
 Slash Commands (Tools):`);
@@ -182,7 +473,45 @@ Example prompts:
 `);
 }
 
+async function saveSession() {
+  if (!agent.history.length) return;
+
+  try {
+    session = createSession(agent, session);
+    await sessionStore.save(session);
+  } catch (error) {
+    agent.logger.warn("Failed to save the session", { error });
+  }
+}
+
+function switchSession(next: Session) {
+  if (next.agent !== agent.constructor.name) {
+    console.log(
+      `Note: this session was recorded with ${next.agent}, continuing with ${agent.constructor.name}`,
+    );
+  }
+  restoreSession(agent, next);
+  session = next;
+}
+
+async function listSessions() {
+  const sessions = await sessionStore.list();
+  if (!sessions.length) {
+    console.log("No saved sessions.\n");
+    return;
+  }
+
+  for (const { id, title, updatedAt, messageCount } of sessions) {
+    const current = id === session?.id ? "*" : " ";
+    console.log(
+      `${current} ${id.substring(0, 8)}  ${new Date(updatedAt).toLocaleString()}  ${String(messageCount).padStart(4)} messages  ${title ?? ""}`,
+    );
+  }
+  console.log("");
+}
+
 async function main() {
+  sessionStore = await createSessionStore();
   await interactiveCLI();
 }
 
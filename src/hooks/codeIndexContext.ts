@@ -0,0 +1,50 @@
+import { codeIndexLite } from "@fraimwork/codetools";
+import { AgentHooks, Message, Tool } from "@fraimwork/core";
+
+const MUTATING_TOOLS = new Set([
+  "WriteFile",
+  "EditFile",
+  "MultiEdit",
+  "FindAndReplace",
+  "RenameFile",
+  "DeleteFile",
+]);
+
+/**
+ * Adds an index of the current working directory after the system prompt of every request
+ * @param indexTool - Tool that produces the index
+ * @param options.cache - Reuse the index until a tool changes the files
+ */
+export function codeIndexContext(
+  indexTool: Tool = codeIndexLite(),
+  options: { cache?: boolean } = {},
+): AgentHooks {
+  let cachedIndex: string | undefined;
+
+  return {
+    async beforeSend(messages) {
+      const index =
+        (options.cache ? cachedIndex : undefined) ??
+        (await indexTool.call({})).content;
+      cachedIndex = index;
+
+      const position = messages[0]?.role === "system" ? 1 : 0;
+      return [
+        ...messages.slice(0, position),
+        new Message(
+          "system",
+          `This is the index for the current working directory:
+${index}
+`,
+        ),
+        ...messages.slice(position),
+      ];
+    },
+
+    afterToolCall(toolCall) {
+      if (MUTATING_TOOLS.has(toolCall.name)) {
+        cachedIndex = undefined;
+      }
+    },
+  };
+}
@@ -1,4 +1,8 @@
-import { Agent, FailoverAgent } from "@fraimwork/core";
+import {
+  Agent,
+  FailoverAgent,
+  SummarizingContextManager,
+} from "@fraimwork/core";
 import { createModelConfig, createModelConfigs } from "../models.ts";
 
 export class AgentFactory {
@@ -6,17 +10,28 @@ export class AgentFactory {
     agentClass: new (...args: any[]) => T,
     modelName = (agentClass as any).defaultModel,
   ): T {
+    let agent: T;
     // Check if the agent class extends FailoverAgent
     if (AgentFactory.isFailoverAgent(agentClass)) {
       // For FailoverAgent subclasses, we need to provide model configs
       // @ts-ignore
       const modelConfigs = createModelConfigs(agentClass.modelNames);
-      return new agentClass(modelConfigs);
+      agent = new agentClass(modelConfigs);
     } else {
       // For regular Agent subclasses, use the new ModelConfig constructor
       const modelConfig = createModelConfig(modelName);
-      return new agentClass(modelConfig);
+      agent = new agentClass(modelConfig);
     }
+
+    // Agents can name a cheaper model to summarize old turns when the context fills up
+    const summaryModel = (agentClass as any).summaryModel;
+    if (summaryModel) {
+      agent.contextManager = new SummarizingContextManager({
+        summarizer: createModelConfig(summaryModel),
+      });
+    }
+
+    return agent;
   }
 
   /**
@@ -0,0 +1,39 @@
+import * as os from "os";
+import * as path from "path";
+import { FileSessionStore, SQLiteSessionStore } from "@fraimwork/core";
+import type { SessionStore } from "@fraimwork/core";
+
+/**
+ * Create the session store configured in the environment
+ *
+ * - FRAIMWORK_SESSION_DB: keep sessions in this SQLite database (needs Node 22.5 or later)
+ * - FRAIMWORK_SESSION_DIR: otherwise keep them as JSON files here, defaults to ~/.fraimwork/sessions
+ */
+export async function createSessionStore(): Promise<SessionStore> {
+  const { FRAIMWORK_SESSION_DB, FRAIMWORK_SESSION_DIR } = process.env;
+
+  if (FRAIMWORK_SESSION_DB) {
+    const { DatabaseSync } = await import("node:sqlite");
+    return new SQLiteSessionStore(new DatabaseSync(FRAIMWORK_SESSION_DB));
+  }
+
+  return new FileSessionStore(
+    FRAIMWORK_SESSION_DIR ?? path.join(os.homedir(), ".fraimwork", "sessions"),
+  );
+}
+
+/**
+ * Load a session by its id or an unambiguous prefix of it
+ */
+export async function findSession(store: SessionStore, idOrPrefix: string) {
+  const session = await store.load(idOrPrefix).catch(() => undefined);
+  if (session) return session;
+
+  const matches = (await store.list()).filter(({ id }) =>
+    id.startsWith(idOrPrefix),
+  );
+  if (matches.length > 1) {
+    throw new Error(`"${idOrPrefix}" matches ${matches.length} sessions`);
+  }
+  return matches[0] ? store.load(matches[0].id) : undefined;
+}
@@ -0,0 +1,44 @@
+import * as fs from "fs";
+import {
+  ConsoleLogger,
+  JsonLinesSpanExporter,
+  OtlpFileSpanExporter,
+  setLogger,
+  setTracer,
+  Tracer,
+} from "@fraimwork/core";
+import type { LogLevel } from "@fraimwork/core";
+
+/**
+ * Set up the default logger and tracer from the environment. Call before creating agents.
+ *
+ * - FRAIMWORK_LOG_LEVEL: debug, info, warn or error
+ * - FRAIMWORK_LOG_FILE: write logs to this file instead of stderr
+ * - FRAIMWORK_TRACE_FILE: export spans to this file
+ * - FRAIMWORK_TRACE_FORMAT: jsonl (default) or otlp
+ * @param defaultLevel - Log level when FRAIMWORK_LOG_LEVEL isn't set
+ */
+export function configureTelemetry(defaultLevel: LogLevel = "warn"): void {
+  const { FRAIMWORK_LOG_LEVEL, FRAIMWORK_LOG_FILE } = process.env;
+  const { FRAIMWORK_TRACE_FILE, FRAIMWORK_TRACE_FORMAT } = process.env;
+
+  setLogger(
+    new ConsoleLogger({
+      level: (FRAIMWORK_LOG_LEVEL as LogLevel | undefined) ?? defaultLevel,
+      format: FRAIMWORK_LOG_FILE ? "json" : "text",
+      stream: FRAIMWORK_LOG_FILE
+        ? fs.createWriteStream(FRAIMWORK_LOG_FILE, { flags: "a" })
+        : process.stderr,
+    }),
+  );
+
+  if (FRAIMWORK_TRACE_FILE) {
+    setTracer(
+      new Tracer([
+        FRAIMWORK_TRACE_FORMAT === "otlp"
+          ? new OtlpFileSpanExporter(FRAIMWORK_TRACE_FILE, "doofydev")
+          : new JsonLinesSpanExporter(FRAIMWORK_TRACE_FILE),
+      ]),
+    );
+  }
+}
@@ -1,5 +1,23 @@
 import { OpenAIService } from "@fraimwork/openai";
-import type { ModelConfig as FrameworkModelConfig } from "@fraimwork/core";
+import { AnthropicService } from "@fraimwork/anthropic";
+import { OllamaService } from "@fraimwork/ollama";
+import { GeminiService } from "@fraimwork/gemini";
+import {
+  CachingLLMService,
+  FileResponseCache,
+  getTokenizer,
+  MemoryResponseCache,
+  RecordingLLMService,
+  RetryingLLMService,
+  TOOL_CALL_DIALECTS,
+} from "@fraimwork/core";
+import type { RecordingMode, ResponseCache } from "@fraimwork/core";
+import type {
+  BPEEncoding,
+  LLMService,
+  ModelConfig as FrameworkModelConfig,
+} from "@fraimwork/core";
+import * as path from "node:path";
 import * as process from "node:process";
 
 export interface ModelConfig {
@@ -16,13 +34,19 @@ export interface ModelConfig {
   category?: "senior" | "mid" | "junior"; // or any categorization you prefer
   apiProvider?: string;
   parseToolCalls?: boolean;
+  // the format of text tool calls, the one the model was trained on
+  toolCallDialect?: "json-tag" | "xml-parameter" | "hermes" | "python-call";
   noStreaming?: boolean;
+  // vocabulary used to count tokens, defaults to cl100k_base as an approximation
+  tokenizer?: BPEEncoding;
 }
 
 export interface ProviderConfig {
   name: string;
   baseURL: string;
   apiKey?: string;
+  // the API the provider speaks, defaults to openai
+  api?: "openai" | "anthropic" | "ollama" | "gemini";
   options?: Record<string, any>;
 }
 
@@ -32,18 +56,34 @@ export const MODELS: Record<string, ModelConfig> = {
     name: "anthropic/claude-sonnet-4",
     slug: "anthropic/claude-4-sonnet-20250522",
     providers: ["google-vertex", "google-vertex/global", "anthropic"],
+    contextSize: 200000,
     category: "senior",
     pricing: { input: 3.0, output: 15.0, throughput: 65 },
     apiProvider: "openrouter",
   },
+  "claude-sonnet-4-20250514": {
+    name: "claude-sonnet-4-20250514",
+    contextSize: 200000,
+    category: "senior",
+    pricing: { input: 3.0, output: 15.0, throughput: 65 },
+    apiProvider: "anthropic",
+  },
   "google/gemini-2.5-pro": {
     name: "google/gemini-2.5-pro",
     slug: "google/gemini-2.5-pro",
     providers: ["google-ai-studio"],
+    contextSize: 1048576,
     category: "senior",
     pricing: { input: 1.25, output: 10.0, throughput: 85 },
     apiProvider: "openrouter",
   },
+  "gemini-2.5-pro": {
+    name: "gemini-2.5-pro",
+    contextSize: 1048576,
+    category: "senior",
+    pricing: { input: 1.25, output: 10.0, throughput: 85 },
+    apiProvider: "gemini",
+  },
   "moonshotai/kimi-k2:free": {
     name: "moonshotai/kimi-k2",
     slug: "moonshotai/kimi-k2",
@@ -56,6 +96,7 @@ export const MODELS: Record<string, ModelConfig> = {
     name: "moonshotai/kimi-k2",
     slug: "moonshotai/kimi-k2",
     providers: ["chutes/fp8", "targon/fp8", "baseten/fp8"],
+    contextSize: 131072,
     category: "senior",
     pricing: { input: 1.5, output: 4.0, throughput: 40 },
     apiProvider: "openrouter",
@@ -63,6 +104,7 @@ export const MODELS: Record<string, ModelConfig> = {
   "kimi-k2-turbo-preview": {
     name: "kimi-k2-turbo-preview",
     // providers: [""],
+    contextSize: 131072,
     category: "senior",
     pricing: { input: 0, output: 0, throughput: 40 },
     apiProvider: "moonshot",
@@ -70,6 +112,7 @@ export const MODELS: Record<string, ModelConfig> = {
   "qwen/qwen3-coder": {
     name: "qwen/qwen3-coder",
     providers: ["baseten/fp8"],
+    contextSize: 262144,
     category: "senior",
     pricing: { input: 0, output: 0, throughput: 35 },
     apiProvider: "openrouter",
@@ -85,6 +128,7 @@ export const MODELS: Record<string, ModelConfig> = {
   "gpt-oss-120b": {
     name: "gpt-oss-120b",
     category: "senior",
+    tokenizer: "o200k_base",
     pricing: { input: 0, output: 0, throughput: 1500 },
     apiProvider: "cerebras"
   },
@@ -112,10 +156,18 @@ export const MODELS: Record<string, ModelConfig> = {
     name: "google/gemini-2.5-flash",
     slug: "google/gemini-2.5-flash",
     providers: ["google-ai-studio"],
+    contextSize: 1048576,
     category: "mid",
     pricing: { input: 0.3, output: 2.5, throughput: 200 },
     apiProvider: "openrouter",
   },
+  "gemini-2.5-flash": {
+    name: "gemini-2.5-flash",
+    contextSize: 1048576,
+    category: "mid",
+    pricing: { input: 0.3, output: 2.5, throughput: 200 },
+    apiProvider: "gemini",
+  },
   "inception/mercury-coder": {
     name: "inception/mercury-coder",
     slug: "inception/mercury-coder-small-beta",
@@ -201,6 +253,7 @@ export const MODELS: Record<string, ModelConfig> = {
     pricing: { input: 0.0, output: 0.0, throughput: 90 },
     apiProvider: "openrouter",
     parseToolCalls: true,
+    toolCallDialect: "hermes",
   },
   "qwen/qwen3-235b-a22b:free": {
     // rate limited 1 rpm
@@ -239,6 +292,7 @@ export const MODELS: Record<string, ModelConfig> = {
     pricing: { input: 0.08, output: 0.29, throughput: 140 },
     apiProvider: "openrouter",
     parseToolCalls: true,
+    toolCallDialect: "hermes",
   },
   "qwen/qwen3-30b-a3b": {
     // successfully added todos with EditFile
@@ -258,6 +312,7 @@ export const MODELS: Record<string, ModelConfig> = {
     pricing: { input: 0.08, output: 0.29, throughput: 140 },
     apiProvider: "openrouter",
     parseToolCalls: true,
+    toolCallDialect: "hermes",
   },
   "qwen/qwen3-14b:free": {
     // successfully added todos with EditFile
@@ -281,6 +336,13 @@ export const MODELS: Record<string, ModelConfig> = {
     pricing: { input: 0.0, output: 0.0, throughput: 32 },
     apiProvider: "lmstudio",
   },
+  "qwen3:8b": {
+    name: "qwen3:8b",
+    category: "junior",
+    contextSize: 32768,
+    pricing: { input: 0.0, output: 0.0, throughput: 30 },
+    apiProvider: "ollama",
+  },
   "gemma-3n-e4b-it": {
     name: "gemma-3n-e4b-it",
     category: "junior",
@@ -302,6 +364,7 @@ export const MODELS: Record<string, ModelConfig> = {
     pricing: { input: 0.0, output: 0.0, throughput: 30 },
     apiProvider: "lmstudio-ryzenrig",
     // parseToolCalls: true,
+    toolCallDialect: "xml-parameter",
   },
   "qwen3-30b-a3b-128k@q2_k_l": {
     name: "qwen3-30b-a3b-128k@q2_k_l",
@@ -323,6 +386,12 @@ export const MODELS: Record<string, ModelConfig> = {
 };
 
 export const ApiProviders: Record<string, ProviderConfig> = {
+  anthropic: {
+    name: "Anthropic",
+    baseURL: "https://api.anthropic.com",
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    api: "anthropic",
+  },
   openrouter: {
     name: "OpenRouter",
     baseURL: "https://openrouter.ai/api/v1",
@@ -338,6 +407,19 @@ export const ApiProviders: Record<string, ProviderConfig> = {
     baseURL: "http://localhost:1234/v1",
     apiKey: "lm-studio",
   },
+  gemini: {
+    name: "Gemini",
+    baseURL: "https://generativelanguage.googleapis.com/v1beta",
+    apiKey: process.env.GEMINI_API_KEY,
+    api: "gemini",
+    // the configured models all think
+    options: { includeThoughts: true },
+  },
+  ollama: {
+    name: "Ollama",
+    baseURL: process.env.OLLAMA_HOST ?? "http://localhost:11434",
+    api: "ollama",
+  },
   "lmstudio-ryzenrig": {
     name: "LM Studio",
     baseURL: "http://ryzenrig:1234/v1",
@@ -351,6 +433,19 @@ export const ApiProviders: Record<string, ProviderConfig> = {
   // Add more providers as needed
 };
 
+let sharedResponseCache: ResponseCache | undefined;
+
+// FRAIMWORK_LLM_CACHE is "memory" or a directory, all models share the cache
+function responseCache(): ResponseCache | undefined {
+  const location = process.env.FRAIMWORK_LLM_CACHE;
+  if (!location) return undefined;
+  sharedResponseCache ??=
+    location === "memory"
+      ? new MemoryResponseCache()
+      : new FileResponseCache(location);
+  return sharedResponseCache;
+}
+
 /**
  * Create a framework ModelConfig from a model key
  */
@@ -368,18 +463,79 @@ export function createModelConfig(modelKey: string): FrameworkModelConfig {
     throw new Error(`API provider not found: ${apiProvider}`);
   }
 
-  const service = new OpenAIService({
-    baseURL: provider.baseURL,
-    apiKey: provider.apiKey,
-    // @ts-ignore - Add provider information for OpenRouter
-    provider: { order: model.providers },
-  });
+  let service: LLMService;
+  if (provider.api === "anthropic") {
+    service = new AnthropicService({
+      baseURL: provider.baseURL,
+      apiKey: provider.apiKey,
+    });
+  } else if (provider.api === "gemini") {
+    service = new GeminiService({
+      baseURL: provider.baseURL,
+      apiKey: provider.apiKey,
+      ...provider.options,
+    });
+  } else if (provider.api === "ollama") {
+    // Ollama loads models with a small context unless told otherwise
+    service = new OllamaService({
+      baseURL: provider.baseURL,
+      contextSize: model.contextSize,
+      ...provider.options,
+    });
+  } else {
+    service = new OpenAIService({
+      baseURL: provider.baseURL,
+      apiKey: provider.apiKey,
+      // retried below, like the other services
+      maxRetries: 0,
+      // @ts-ignore - Add provider information for OpenRouter
+      provider: { order: model.providers },
+    });
+  }
+
+  // FRAIMWORK_MAX_RETRIES=0 turns retries off, unset or empty keeps the default
+  const maxRetriesSetting = process.env.FRAIMWORK_MAX_RETRIES?.trim();
+  const maxRetries = maxRetriesSetting ? Number(maxRetriesSetting) : undefined;
+  service = new RetryingLLMService(
+    service,
+    maxRetries !== undefined && Number.isInteger(maxRetries) && maxRetries >= 0
+      ? { maxRetries }
+      : {},
+  );
+
+  // record replies to a cassette per model, or replay them to run offline
+  if (process.env.FRAIMWORK_CASSETTE_DIR) {
+    service = new RecordingLLMService(
+      service,
+      path.join(
+        process.env.FRAIMWORK_CASSETTE_DIR,
+        `${modelKey.replace(/[^\w.-]+/g, "_")}.json`,
+      ),
+      (process.env.FRAIMWORK_CASSETTE_MODE as RecordingMode) ?? "auto",
+    );
+  }
+
+  const cache = responseCache();
+  if (cache) {
+    const ttl = Number(process.env.FRAIMWORK_LLM_CACHE_TTL);
+    service = new CachingLLMService(
+      service,
+      cache,
+      ttl > 0 ? ttl * 1000 : undefined,
+    );
+  }
 
   return {
     name: model.name,
     service,
     parseToolCalls: model.parseToolCalls,
+    toolCallDialect: model.toolCallDialect
+      ? TOOL_CALL_DIALECTS[model.toolCallDialect]
+      : undefined,
     noStreaming: model.noStreaming,
+    contextSize: model.contextSize,
+    tokenizer: getTokenizer(model.tokenizer ?? "cl100k_base"),
+    pricing: model.pricing,
     // @ts-ignore
     slug: model.slug,
   };
@@ -4,34 +4,115 @@ import cors from "cors";
 import * as fs from "fs";
 import { DoofyDevAgent } from "./agents/DoofyDevAgent";
 import { FreeAgent } from "./agents/FreeAgent";
-import { Message, Agent } from "@fraimwork/core";
+import {
+  Message,
+  Agent,
+  AbortError,
+  createSession,
+  forkSession,
+  getLogger,
+  requireApproval,
+  restoreSession,
+  summarizeSession,
+} from "@fraimwork/core";
+import type {
+  ApprovalRequest,
+  ApprovalResponse,
+  Approver,
+  Session,
+  Usage,
+} from "@fraimwork/core";
 import { AgentFactory } from "./lib/AgentFactory";
+import { configureTelemetry } from "./lib/telemetry.ts";
+import { createSessionStore } from "./lib/sessions.ts";
 import { createHash } from "crypto";
 
-const conversationHistoryFile = "./conversationHistory.json";
+configureTelemetry("info");
+const logger = getLogger();
 
-function loadConversationHistory() {
+// every response is saved as a session with the response's id, see /v1/sessions
+const sessionStorePromise = createSessionStore();
+
+// hash of a user message -> id of the session that answered it, so clients
+// that resend the whole conversation continue the same session
+const sessionIndexFile = "./sessionIndex.json";
+
+function loadSessionIndex(): Record<string, string> {
   try {
-    const data = fs.readFileSync(conversationHistoryFile, "utf-8");
-    return JSON.parse(data);
+    return JSON.parse(fs.readFileSync(sessionIndexFile, "utf-8"));
   } catch (error) {
-    return { conversationById: {}, conversationByHash: {} };
+    return {};
   }
 }
 
-function saveConversationHistory(
-  conversationById: Record<string, any>,
-  conversationByHash: Record<string, any>,
-) {
-  const data = JSON.stringify(
-    { conversationById, conversationByHash },
-    null,
-    2,
+function saveSessionIndex(sessionIdByHash: Record<string, string>) {
+  fs.writeFileSync(
+    sessionIndexFile,
+    JSON.stringify(sessionIdByHash, null, 2),
+    "utf-8",
   );
-  fs.writeFileSync(conversationHistoryFile, data, "utf-8");
 }
 
-const { conversationById, conversationByHash } = loadConversationHistory();
+const sessionIdByHash = loadSessionIndex();
+
+// tool calls waiting for the client to approve or deny them, see /v1/approvals
+const pendingApprovals: Record<
+  string,
+  { request: ApprovalRequest; resolve: (response: ApprovalResponse) => void }
+> = {};
+// tool calls the client doesn't answer in time are denied
+const APPROVAL_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * Create an approver that pauses the tool call until the client answers with POST /v1/approvals/:id
+ * @param onPending - Called when a tool call starts waiting, to tell the client about it
+ */
+function createApprover(
+  onPending: (id: string, request: ApprovalRequest) => void,
+): Approver {
+  return (request, signal) =>
+    new Promise((resolve, reject) => {
+      const id = `approval-${Date.now()}-${request.toolCall.id}`;
+
+      const cleanup = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+        delete pendingApprovals[id];
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new AbortError());
+      };
+      const timeout = setTimeout(() => {
+        cleanup();
+        resolve({
+          approved: false,
+          reason: "The user did not respond in time",
+        });
+      }, APPROVAL_TIMEOUT);
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      pendingApprovals[id] = {
+        request,
+        resolve: (response) => {
+          cleanup();
+          resolve(response);
+        },
+      };
+      onPending(id, request);
+    });
+}
+
+function describeApproval(id: string, request: ApprovalRequest) {
+  return {
+    id,
+    tool: request.toolCall.name,
+    args: request.toolCall.args,
+    risk: request.risk,
+    paths: request.paths,
+    preview: request.preview,
+  };
+}
 
 /**
  * Server file for the Doofy AI assistant
@@ -51,7 +132,8 @@ const agentTypes: Record<string, any> = {
 app.post(
   "/v1/chat/completions",
   async (req: Request, res: Response, next: NextFunction) => {
-    console.log("/v1/chat/completions");
+    logger.info("POST /v1/chat/completions", { model: req.body?.model });
+    let saveSession = async () => {};
     try {
       const {
         model = "doofy",
@@ -59,6 +141,7 @@ app.post(
         temperature,
         max_tokens,
         stream = true,
+        stream_options,
         previous_response_id,
       } = req.body;
 
@@ -80,30 +163,82 @@ app.post(
         (message: any) => message.role == "user",
       );
 
+      const sessionStore = await sessionStorePromise;
+      let parent: Session | undefined;
       if (previous_response_id) {
-        agent.history = conversationById[previous_response_id];
-        agent.history.push(userMessages.pop());
+        parent = await sessionStore.load(previous_response_id);
       } else if (userMessages.length > 1) {
-        agent.history =
-          conversationByHash[
-            hash(userMessages[userMessages.length - 2].content)
-          ];
-        agent.history.push(messages.pop());
+        const parentId =
+          sessionIdByHash[hash(userMessages[userMessages.length - 2].content)];
+        parent = parentId ? await sessionStore.load(parentId) : undefined;
+      }
+
+      if (parent) {
+        restoreSession(agent, parent);
+        agent.history.push(
+          new Message("user", userMessages[userMessages.length - 1].content),
+        );
       } else {
+        // unknown conversation, take the client's word for the history
         agent.history = messages.map(
           (message: any) => new Message(message.role, message.content),
         );
       }
       const id = `chatcmpl-${Date.now()}`;
       const message = agent.history.pop()!;
-      const messageHash = hash(message.content);
-      conversationById[id] = agent.history;
-      conversationByHash[messageHash] = agent.history;
+      sessionIdByHash[hash(message.content)] = id;
+
+      saveSession = async () => {
+        await sessionStore.save(
+          createSession(agent, {
+            id,
+            title: parent?.title,
+            parentId: parent?.id,
+          }),
+        );
+        saveSessionIndex(sessionIdByHash);
+      };
 
       // Set agent properties from request
       if (temperature !== undefined) agent.temperature = temperature;
       if (max_tokens !== undefined) agent.maxTokens = max_tokens;
 
+      // Tool calls that need approval wait for POST /v1/approvals/:id. Streaming
+      // clients are told about them in the stream, others can poll GET /v1/approvals.
+      agent.use(
+        requireApproval(
+          createApprover((approvalId, request) => {
+            if (!stream) return;
+            res.write(
+              `data: ${JSON.stringify({
+                id,
+                object: "chat.completion.chunk",
+                created: Math.floor(Date.now() / 1000),
+                model: agent.modelName,
+                choices: [
+                  {
+                    index: 0,
+                    delta: {
+                      content: `[ Approval required for ${request.toolCall.name}: POST /v1/approvals/${approvalId} ]\n`,
+                    },
+                    finish_reason: null,
+                  },
+                ],
+                approval: describeApproval(approvalId, request),
+              })}\n\n`,
+            );
+          }),
+        ),
+      );
+
+      // Stop the agent if the client goes away before the response is finished
+      const abortController = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) {
+          abortController.abort();
+        }
+      });
+
       if (stream) {
         // Set up streaming response in OpenAI format
         res.setHeader("Content-Type", "text/event-stream");
@@ -149,6 +284,26 @@ app.post(
           );
         });
 
+        if (agent.reasoningPolicy.expose) {
+          agent.on("reasoning", (chunk: string) => {
+            res.write(
+              `data: ${JSON.stringify({
+                id,
+                object: "chat.completion.chunk",
+                created: Math.floor(Date.now() / 1000),
+                model: agent.modelName,
+                choices: [
+                  {
+                    index: 0,
+                    delta: { reasoning_content: chunk },
+                    finish_reason: null,
+                  },
+                ],
+              })}\n\n`,
+            );
+          });
+        }
+
         agent.on("toolCall", (toolCall: any) => {
           // Handle tool calls in streaming mode
           res.write(
@@ -169,7 +324,11 @@ app.post(
         });
 
         try {
-          await agent.send(message, true);
+          const response = await agent.send(
+            message,
+            true,
+            abortController.signal,
+          );
           res.write(
             `data: ${JSON.stringify({
               id,
@@ -185,8 +344,25 @@ app.post(
               ],
             })}\n\n`,
           );
+          if (stream_options?.include_usage) {
+            res.write(
+              `data: ${JSON.stringify({
+                id,
+                object: "chat.completion.chunk",
+                created: Math.floor(Date.now() / 1000),
+                model: agent.modelName,
+                choices: [],
+                usage: convertUsage(response.usage),
+              })}\n\n`,
+            );
+          }
         } catch (e) {
-          console.error("Error:", e);
+          if (e instanceof AbortError) {
+            logger.info("Client disconnected, request aborted");
+            await saveSession();
+            return;
+          }
+          logger.error("Request failed", { error: e });
           res.write(
             `data: ${JSON.stringify({
               id,
@@ -204,13 +380,18 @@ app.post(
           );
         }
         res.write("data: [DONE]\n\n");
-        saveConversationHistory(conversationById, conversationByHash);
+        await saveSession();
         res.end();
       } else {
         // Non-streaming mode
-        const response = await agent.send(message, false);
+        const response = await agent.send(
+          message,
+          false,
+          abortController.signal,
+        );
+        await saveSession();
         res.json({
-          id: `chatcmpl-${Date.now()}`,
+          id,
           object: "chat.completion",
           created: Math.floor(Date.now() / 1000),
           model: agent.modelName,
@@ -220,19 +401,23 @@ app.post(
               message: {
                 role: "assistant",
                 content: response.content,
+                reasoning_content: agent.reasoningPolicy.expose
+                  ? response.reasoning
+                  : undefined,
               },
               finish_reason: "stop",
             },
           ],
-          usage: {
-            prompt_tokens: -1, // We don't track token usage
-            completion_tokens: -1,
-            total_tokens: -1,
-          },
+          usage: convertUsage(response.usage),
         });
       }
     } catch (error) {
-      console.error("Error:", error);
+      if (error instanceof AbortError) {
+        logger.info("Client disconnected, request aborted");
+        await saveSession();
+        return;
+      }
+      logger.error("Request failed", { error });
       if (res.headersSent) {
         res.write(
           `data: ${JSON.stringify({
@@ -249,7 +434,7 @@ app.post(
             ],
           })}\n\n`,
         );
-        saveConversationHistory(conversationById, conversationByHash);
+        await saveSession();
         res.end();
         return next(error);
       }
@@ -264,9 +449,82 @@ app.post(
   },
 );
 
+// Saved conversations, most recent first
+app.get("/v1/sessions", async (req: Request, res: Response) => {
+  const sessionStore = await sessionStorePromise;
+  res.send({ object: "list", data: await sessionStore.list() });
+});
+
+app.get("/v1/sessions/:id", async (req: Request, res: Response) => {
+  const session = await (await sessionStorePromise).load(req.params.id);
+  if (!session) {
+    res.status(404).json(sessionNotFound(req.params.id));
+    return;
+  }
+  res.send(session);
+});
+
+// Copy a session, optionally only its first messageCount messages. Continue the
+// copy by passing its id as previous_response_id.
+app.post("/v1/sessions/:id/fork", async (req: Request, res: Response) => {
+  const sessionStore = await sessionStorePromise;
+  const session = await sessionStore.load(req.params.id);
+  if (!session) {
+    res.status(404).json(sessionNotFound(req.params.id));
+    return;
+  }
+
+  const forked = forkSession(session, req.body?.messageCount);
+  await sessionStore.save(forked);
+  res.status(201).send(summarizeSession(forked));
+});
+
+function sessionNotFound(id: string) {
+  return {
+    error: {
+      message: `Session '${id}' not found`,
+      type: "invalid_request_error",
+      param: "id",
+      code: "session_not_found",
+    },
+  };
+}
+
+// Tool calls waiting for approval
+app.get("/v1/approvals", (req: Request, res: Response) => {
+  res.send({
+    object: "list",
+    data: Object.entries(pendingApprovals).map(([id, { request }]) =>
+      describeApproval(id, request),
+    ),
+  });
+});
+
+// Approve or deny a tool call: { "approved": boolean, "args"?: object, "reason"?: string }
+app.post("/v1/approvals/:id", (req: Request, res: Response) => {
+  const pending = pendingApprovals[req.params.id];
+  if (!pending) {
+    res.status(404).json({
+      error: {
+        message: `No tool call is waiting for approval '${req.params.id}'`,
+        type: "invalid_request_error",
+        param: "id",
+        code: "approval_not_found",
+      },
+    });
+    return;
+  }
+
+  const { approved, args, reason } = req.body ?? {};
+  pending.resolve(
+    approved ? { approved: true, args } : { approved: false, reason },
+  );
+  res.send({ id: req.params.id, approved: !!approved });
+});
+
 // OpenAI-compatible API endpoint for listing models
 app.get("/v1/models", async (req, res, next) => {
-  console.log("/v1/models");
+  logger.info("GET /v1/models");
   res.send({
     object: "list",
     data: [
@@ -286,6 +544,14 @@ app.get("/v1/models", async (req, res, next) => {
   });
 });
 
+function convertUsage(usage?: Usage) {
+  return {
+    prompt_tokens: usage?.promptTokens ?? 0,
+    completion_tokens: usage?.completionTokens ?? 0,
+    total_tokens: usage?.totalTokens ?? 0,
+  };
+}
+
 function hash(str: string) {
   return createHash("sha256").update(str).digest("hex");
 }
@@ -293,5 +559,5 @@ function hash(str: string) {
 // Start the server
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`);
+  logger.info(`Server is running on port ${PORT}`);
 });
@@ -1,4 +1,4 @@
-import { Tool, Agent, Message, ModelConfig } from "@fraimwork/core";
+import { AbortError, Tool, Agent, Message, ModelConfig } from "@fraimwork/core";
 import { AgentFactory } from "../lib/AgentFactory.ts";
 
 export function askAgent(
@@ -18,22 +18,28 @@ export function askAgent(
           description: "your request in plain words",
         },
       },
-      required: ["question"],
+      required: ["request"],
     },
-    async (args: Record<string, any>): Promise<string> => {
+    async (
+      args: Record<string, any>,
+      signal?: AbortSignal,
+    ): Promise<string> => {
       try {
         const agent: Agent = AgentFactory.getAgent(agentClass as any);
         if (!args.request) {
           return "Error: No input";
         }
         const userMessage = new Message("user", args.request);
-        const response = await agent.send(userMessage, false);
+        const response = await agent.send(userMessage, false, signal);
         if (response && response.content) {
           return response.content;
         }
 
         return "No response received.";
       } catch (error) {
+        if (error instanceof AbortError) {
+          throw error;
+        }
         return `Error asking ${name}: ${error instanceof Error ? error.stack : String(error)}`;
       }
     },
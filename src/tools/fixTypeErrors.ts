@@ -1,4 +1,4 @@
-import { Tool } from "@fraimwork/core";
+import { getLogger, Tool } from "@fraimwork/core";
 import { typeCheck } from "@fraimwork/codetools";
 import { askAgent } from "./askAgent.ts";
 import { JrDevAgent } from "../agents/JrDevAgent.ts";
@@ -40,21 +40,16 @@ export function fixTypeErrors(): Tool {
           // Check for errors
           const checkResult = await typeCheckTool.call({});
 
-          // If no errors, break the loop
-          if (checkResult === "No type errors found") {
-            results.push("No type errors found. Done.");
+          if (!checkResult.ok) {
+            results.push(checkResult.content);
             break;
           }
 
-          // Parse the errors (now an array of strings)
-          let errors: string[];
+          const errors: string[] = checkResult.data;
 
-          try {
-            errors = JSON.parse(checkResult);
-          } catch (parseError) {
-            results.push(
-              `Error parsing type check results: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-            );
+          // If no errors, break the loop
+          if (!errors.length) {
+            results.push("No type errors found. Done.");
             break;
           }
 
@@ -92,13 +87,19 @@ ${errorReport}
 ${tbt}
 When done, provide a very brief description of the problems and what you did to fix them.`;
 
-            console.log(agentRequest);
+            getLogger().debug("Asking JrDevAgent to fix type errors", {
+              file: filePath,
+              request: agentRequest,
+            });
 
             try {
               const agentResponse = await agentTool.call({
                 request: agentRequest,
               });
-              console.log({ agentResponse });
+              getLogger().debug("JrDevAgent replied", {
+                file: filePath,
+                response: agentResponse.content,
+              });
               results.push(`Fixed ${filePath}`);
             } catch (agentError) {
               results.push(